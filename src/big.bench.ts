@@ -0,0 +1,48 @@
+/**
+ * big.bench.ts - big.ts 的性能测试文件
+ * 
+ * 比较bigIntBytes()/bigIntFromBytes()与逐字节移位BigInt的实现在1到1024字节的整数上的性能。
+ * 逐字节移位需要与字节数的平方成正比的时间，整数越大差距越明显。
+ * 
+ * 使用 `npm run bench` 运行。
+ */
+import { bench, describe } from "vitest";
+import { bigIntBytes, bigIntFromBytes } from "./big.js";
+
+for (const byteLength of [1, 8, 32, 128, 512, 1024]) {
+	const bytes = new Uint8Array(byteLength).map((_, i) => (i * 151 + 1) | 1);
+	const value = bigIntFromBytes(bytes);
+
+	describe(`bigIntBytes() ${byteLength}字节`, () => {
+		bench("逐字节移位", () => {
+			let length = 1;
+			while (value > 2n ** BigInt(length * 8) - 1n) {
+				length++;
+			}
+			const encoded = new Uint8Array(length);
+			for (let i = 0; i < length; i++) {
+				encoded[i] = Number((value >> BigInt((length - i - 1) * 8)) & 0xffn);
+			}
+		});
+
+		bench("bigIntBytes()", () => {
+			bigIntBytes(value);
+		});
+	});
+
+	describe(`bigIntFromBytes() ${byteLength}字节`, () => {
+		bench("逐字节移位", () => {
+			let decoded = 0n;
+			for (let i = 0; i < bytes.byteLength; i++) {
+				decoded += BigInt(bytes[i]) << BigInt((bytes.byteLength - 1 - i) * 8);
+			}
+			if (decoded !== value) {
+				throw new Error("Unexpected value");
+			}
+		});
+
+		bench("bigIntFromBytes()", () => {
+			bigIntFromBytes(bytes);
+		});
+	});
+}
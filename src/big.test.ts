@@ -9,11 +9,13 @@
  * 1. `bigIntBytes` 能将 BigInt 正确地转换为大端序（Big-Endian）的字节数组。
  * 2. `bigIntFromBytes` 能将大端序的字节数组正确地转换回 BigInt。
  * 3. 能够处理正数和非常大的数字。
+ * 4. 选项中的固定字节数、字节序和有符号模式(二进制补码)能正确工作。
  * 
- * 注意：这里的转换遵循大端序（Big-Endian）的约定，即最重要的字节（MSB）存储在最低的地址。
+ * 注意：默认的转换遵循大端序（Big-Endian）的约定，即最重要的字节（MSB）存储在最低的地址。
  */
 import { test, expect } from "vitest";
 import { bigIntBytes, bigIntFromBytes } from "./big.js";
+import { littleEndian } from "./uint.js";
 
 // 测试 bigIntBytes() 函数：将 BigInt 转换为字节数组
 test("bigIntBytes()", () => {
@@ -29,10 +31,9 @@ test("bigIntBytes()", () => {
 	// 预期输出: [0x01, 0x00] (两个字节表示，大端序)
 	expect(bigIntBytes(256n)).toStrictEqual(new Uint8Array([0x01, 0x00]));
 
-	// 测试用例 4: 负数 (注意：当前实现似乎将负数视为正数处理，只取绝对值)
-	// 输入: -256n
-	// 预期输出: [0x01, 0x00] (与 256n 结果相同)
-	expect(bigIntBytes(-256n)).toStrictEqual(new Uint8Array([0x01, 0x00]));
+	// 测试用例 4: 负数
+	// 没有使用有符号模式时，负数会抛出错误，而不是只取绝对值
+	expect(() => bigIntBytes(-256n)).toThrowError("Negative value");
 
 	// 测试用例 5: 一个非常大的 BigInt
 	// 这个数字需要多个字节来表示
@@ -74,3 +75,100 @@ test("bigIntFromBytes()", () => {
 	// 预期输出: 对应的 BigInt 值
 	.toBe(5476057457410545405175640567415649081748931656501235026509713265394n);
 });
+
+// 测试固定字节数：不足时在高位补 0，放不下时抛出错误
+test("bigIntBytes() 固定字节数", () => {
+	expect(bigIntBytes(300n, { byteLength: 4 })).toStrictEqual(new Uint8Array([0, 0, 0x01, 0x2c]));
+	expect(bigIntBytes(0n, { byteLength: 3 })).toStrictEqual(new Uint8Array([0, 0, 0]));
+	expect(bigIntBytes(0xffffn, { byteLength: 2 })).toStrictEqual(new Uint8Array([0xff, 0xff]));
+	expect(() => bigIntBytes(0x10000n, { byteLength: 2 })).toThrowError(
+		"Value does not fit in byte length"
+	);
+	expect(() => bigIntBytes(1n, { byteLength: 0 })).toThrowError("Invalid byte length");
+	expect(() => bigIntBytes(1n, { byteLength: 1.5 })).toThrowError("Invalid byte length");
+});
+
+// 测试小端序
+test("bigIntBytes()/bigIntFromBytes() 小端序", () => {
+	expect(bigIntBytes(300n, { byteOrder: littleEndian })).toStrictEqual(
+		new Uint8Array([0x2c, 0x01])
+	);
+	expect(bigIntBytes(300n, { byteOrder: littleEndian, byteLength: 4 })).toStrictEqual(
+		new Uint8Array([0x2c, 0x01, 0, 0])
+	);
+	expect(bigIntFromBytes(new Uint8Array([0x2c, 0x01, 0, 0]), { byteOrder: littleEndian })).toBe(
+		300n
+	);
+});
+
+// 测试有符号模式 (二进制补码)
+test("bigIntBytes()/bigIntFromBytes() 有符号模式", () => {
+	expect(bigIntBytes(0n, { signed: true })).toStrictEqual(new Uint8Array([0x00]));
+	expect(bigIntBytes(127n, { signed: true })).toStrictEqual(new Uint8Array([0x7f]));
+	expect(bigIntBytes(128n, { signed: true })).toStrictEqual(new Uint8Array([0x00, 0x80]));
+	expect(bigIntBytes(-1n, { signed: true })).toStrictEqual(new Uint8Array([0xff]));
+	expect(bigIntBytes(-128n, { signed: true })).toStrictEqual(new Uint8Array([0x80]));
+	expect(bigIntBytes(-129n, { signed: true })).toStrictEqual(new Uint8Array([0xff, 0x7f]));
+	expect(bigIntBytes(-256n, { signed: true })).toStrictEqual(new Uint8Array([0xff, 0x00]));
+	expect(bigIntBytes(-2n, { signed: true, byteLength: 4 })).toStrictEqual(
+		new Uint8Array([0xff, 0xff, 0xff, 0xfe])
+	);
+	expect(bigIntBytes(-2n, { signed: true, byteOrder: littleEndian, byteLength: 2 })).toStrictEqual(
+		new Uint8Array([0xfe, 0xff])
+	);
+	expect(() => bigIntBytes(128n, { signed: true, byteLength: 1 })).toThrowError(
+		"Value does not fit in byte length"
+	);
+	expect(() => bigIntBytes(-129n, { signed: true, byteLength: 1 })).toThrowError(
+		"Value does not fit in byte length"
+	);
+
+	expect(bigIntFromBytes(new Uint8Array([0xff]), { signed: true })).toBe(-1n);
+	expect(bigIntFromBytes(new Uint8Array([0xff]))).toBe(255n);
+	expect(bigIntFromBytes(new Uint8Array([0x00, 0x80]), { signed: true })).toBe(128n);
+	expect(bigIntFromBytes(new Uint8Array([0xff, 0x00]), { signed: true })).toBe(-256n);
+	expect(
+		bigIntFromBytes(new Uint8Array([0xfe, 0xff]), { signed: true, byteOrder: littleEndian })
+	).toBe(-2n);
+	for (let value = -70000n; value <= 70000n; value += 997n) {
+		expect(bigIntFromBytes(bigIntBytes(value, { signed: true }), { signed: true })).toBe(value);
+	}
+});
+
+// 逐字节移位的参考实现，用于检查大整数的转换结果
+function referenceBytes(value: bigint, byteLength: number): Uint8Array {
+	const bytes = new Uint8Array(byteLength);
+	for (let i = byteLength - 1; i >= 0; i--) {
+		bytes[i] = Number(value & 0xffn);
+		value >>= 8n;
+	}
+	return bytes;
+}
+
+// 测试大整数的转换，结果应该与逐字节移位的参考实现相同
+test("bigIntBytes()/bigIntFromBytes() 大整数", () => {
+	for (const byteLength of [1, 2, 7, 8, 9, 31, 32, 33, 255, 256, 512, 1024]) {
+		const bytes = new Uint8Array(byteLength).map((_, i) => (i * 151 + byteLength) & 0xff);
+		bytes[0] |= 1;
+		let value = 0n;
+		for (const byte of bytes) {
+			value = (value << 8n) | BigInt(byte);
+		}
+		expect(bigIntBytes(value)).toStrictEqual(referenceBytes(value, byteLength));
+		expect(bigIntFromBytes(bytes)).toBe(value);
+		expect(bigIntBytes(value, { byteOrder: littleEndian })).toStrictEqual(bytes.slice().reverse());
+		expect(bigIntFromBytes(bytes.slice().reverse(), { byteOrder: littleEndian })).toBe(value);
+		expect(bigIntBytes(-value, { signed: true })).toStrictEqual(
+			referenceBytes(BigInt.asUintN(byteLength * 8 + 8, -value), byteLength + 1).subarray(
+				bytes[0] >= 0x80 ? 0 : 1
+			)
+		);
+	}
+	// 最高位字节的每一种有效位数
+	for (let bits = 0; bits <= 64; bits++) {
+		const value = bits === 0 ? 0n : 1n << BigInt(bits - 1);
+		expect(bigIntBytes(value)).toStrictEqual(
+			referenceBytes(value, Math.max(Math.ceil(bits / 8), 1))
+		);
+	}
+});
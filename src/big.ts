@@ -11,81 +11,158 @@
  * 2. 从字节数组还原回BigInt
  * 
  * 这在需要序列化/反序列化大整数、在二进制协议中传输大整数、或者进行密码学运算时非常有用。
+ * 
+ * 默认使用最少的字节数和大端序，通过选项可以指定：
+ * - 固定的字节数(例如ECDSA的标量、RSA的I2OSP需要固定长度的输出)，不足时在高位补0
+ * - 字节序(例如X25519使用小端序)
+ * - 有符号模式，使用二进制补码(two's complement)表示负数
+ * 
+ * 4096位的RSA模数这样的大整数也很常见，所以这里的转换都只需要与字节数成正比的时间，
+ * 不会逐字节地移位BigInt(每次移位都会复制整个BigInt)。
+ */
+
+import { bigEndian } from "./uint.js";
+
+import type { ByteOrder } from "./uint.js";
+
+/**
+ * bigIntBytes()的选项
  */
+export interface BigIntBytesOptions {
+	/**
+	 * 输出的字节数，默认为能表示这个值的最少字节数
+	 */
+	byteLength?: number;
+
+	/**
+	 * 字节序，默认为bigEndian
+	 */
+	byteOrder?: ByteOrder;
+
+	/**
+	 * 是否使用二进制补码表示有符号整数，默认为false
+	 */
+	signed?: boolean;
+}
+
+/**
+ * bigIntFromBytes()的选项
+ */
+export interface BigIntFromBytesOptions {
+	/**
+	 * 字节序，默认为bigEndian
+	 */
+	byteOrder?: ByteOrder;
+
+	/**
+	 * 是否把字节数组当作二进制补码表示的有符号整数，默认为false
+	 */
+	signed?: boolean;
+}
 
 /**
  * 将BigInt转换为字节数组
  * 
  * 这个函数接受一个BigInt值，计算需要多少个字节来表示它，然后将其转换为一个字节数组。
- * 返回的字节数组使用大端序(Big-Endian)表示，即最高位字节在前。
+ * 默认返回的字节数组使用大端序(Big-Endian)表示，即最高位字节在前。
  * 
  * 算法步骤：
- * 1. 如果输入是负数，取其绝对值（忽略符号）
- * 2. 计算表示这个数需要的最少字节数
- * 3. 创建一个适当大小的字节数组
- * 4. 从高位到低位，依次将数字的每8位(1字节)提取出来并存入数组
+ * 1. 检查符号：只有有符号模式可以转换负数
+ * 2. 根据有效位数计算表示这个数需要的最少字节数，有符号模式下还需要留出符号位
+ * 3. 如果指定了字节数，检查这个数是否能放下，并在高位补0(有符号的负数补0xff)
+ * 4. 按指定的字节序写入每个字节
  * 
- * 例如，数字300(二进制：100101100)需要2个字节表示，转换结果为[1, 44]
+ * 例如：
+ * - 数字300(二进制：100101100)需要2个字节表示，转换结果为[1, 44]
+ * - bigIntBytes(300n, { byteLength: 4 }) 的结果为[0, 0, 1, 44]
+ * - bigIntBytes(300n, { byteOrder: littleEndian }) 的结果为[44, 1]
+ * - bigIntBytes(-1n, { signed: true }) 的结果为[0xff]，而 bigIntBytes(128n, { signed: true }) 的结果为[0, 128]
  * 
  * @param value 要转换的BigInt值
- * @returns 表示该BigInt的字节数组(Uint8Array)，使用大端序
+ * @param options 选项
+ * @returns 表示该BigInt的字节数组(Uint8Array)
+ * @throws 如果值为负数但没有使用有符号模式、字节数无效，或者值超出了指定的字节数，抛出TypeError
  */
-export function bigIntBytes(value: bigint): Uint8Array {
-	// 处理负数：取绝对值
-	if (value < 0n) {
-		value = value * -1n;
+export function bigIntBytes(value: bigint, options?: BigIntBytesOptions): Uint8Array {
+	const signed = options?.signed ?? false;
+	if (value < 0n && !signed) {
+		throw new TypeError("Negative value");
 	}
-	
+
 	// 计算需要的字节数
-	let byteLength = 1;
-	while (value > 2n ** BigInt(byteLength * 8) - 1n) {
-		byteLength++;
+	// 有符号模式下还需要1位符号位，负数value的补码与 -value-1 有相同的有效位数
+	let bits: number;
+	if (signed) {
+		bits = bitLength(value < 0n ? -value - 1n : value) + 1;
+	} else {
+		bits = bitLength(value);
 	}
-	
-	// 创建结果数组
-	const encoded = new Uint8Array(byteLength);
-	
-	// 填充字节数组
-	for (let i = 0; i < encoded.byteLength; i++) {
-		// 从高位字节开始，依次提取每个字节
-		// (value >> BigInt((encoded.byteLength - i - 1) * 8))将对应位置的字节移到最低8位
-		// & 0xffn 取最低8位的值(一个字节)
-		encoded[i] = Number((value >> BigInt((encoded.byteLength - i - 1) * 8)) & 0xffn);
+	let byteLength = Math.max(Math.ceil(bits / 8), 1);
+	if (options?.byteLength !== undefined) {
+		if (!Number.isInteger(options.byteLength) || options.byteLength < 1) {
+			throw new TypeError("Invalid byte length");
+		}
+		if (options.byteLength < byteLength) {
+			throw new TypeError("Value does not fit in byte length");
+		}
+		byteLength = options.byteLength;
 	}
-	
+
+	// 创建结果数组并填充字节
+	// 负数的二进制补码等于 2^(8n) + value，也就是BigInt.asUintN()的结果
+	const encoded = new Uint8Array(byteLength);
+	const byteOrder = options?.byteOrder ?? bigEndian;
+	byteOrder.putUintN(encoded, BigInt.asUintN(byteLength * 8, value), 0, byteLength);
 	return encoded;
 }
 
 /**
  * 从字节数组中还原BigInt值
  * 
- * 这个函数与bigIntBytes功能相反，它接受一个字节数组，将其解释为大端序(Big-Endian)表示的整数，
+ * 这个函数与bigIntBytes功能相反，它接受一个字节数组，默认将其解释为大端序(Big-Endian)表示的无符号整数，
  * 然后返回对应的BigInt值。
  * 
  * 算法步骤：
  * 1. 确保输入的字节数组不为空
- * 2. 初始化结果为0n(BigInt类型的0)
- * 3. 从最高位字节到最低位字节，依次将每个字节的值累加到结果中
- * 4. 每累加一个字节，将之前的结果左移8位
+ * 2. 按指定的字节序把所有字节解释为无符号整数
+ * 3. 有符号模式下，如果最高位为1，则减去2^(8n)得到负数
  * 
- * 例如，字节数组[1, 44]将被解释为数字300
+ * 例如，字节数组[1, 44]将被解释为数字300，
+ * 而 bigIntFromBytes(new Uint8Array([0xff, 0xff]), { signed: true }) 的结果为-1n
  * 
- * @param bytes 表示整数的字节数组(Uint8Array)，使用大端序
+ * @param bytes 表示整数的字节数组(Uint8Array)
+ * @param options 选项
  * @returns 解析出的BigInt值
  * @throws 如果输入的字节数组为空，抛出TypeError
  */
-export function bigIntFromBytes(bytes: Uint8Array): bigint {
+export function bigIntFromBytes(bytes: Uint8Array, options?: BigIntFromBytesOptions): bigint {
 	if (bytes.byteLength < 1) {
 		throw new TypeError("Empty Uint8Array");
 	}
-	
-	let decoded = 0n; // 初始化结果为BigInt类型的0
-	
-	for (let i = 0; i < bytes.byteLength; i++) {
-		// 从高位字节开始处理
-		// 每个字节乘以对应的2^n次方(左移操作)后累加到结果
-		decoded += BigInt(bytes[i]) << BigInt((bytes.byteLength - 1 - i) * 8);
+
+	const byteOrder = options?.byteOrder ?? bigEndian;
+	const decoded = byteOrder.uintN(bytes, 0, bytes.byteLength);
+	if (options?.signed) {
+		return BigInt.asIntN(bytes.byteLength * 8, decoded);
 	}
-	
 	return decoded;
 }
+
+/**
+ * 计算非负整数的有效位数(最高的1所在的位置)
+ * 
+ * 逐个比较2的幂需要与位数的平方成正比的时间，而转换为十六进制字符串只需要线性时间：
+ * 除了第一个字符，每个十六进制字符正好对应4位。
+ * 
+ * 例如：bitLength(0n) 返回 0，bitLength(300n) 返回 9
+ * 
+ * @param value 非负整数
+ * @returns 有效位数
+ */
+function bitLength(value: bigint): number {
+	if (value === 0n) {
+		return 0;
+	}
+	const hex = value.toString(16);
+	return (hex.length - 1) * 4 + 32 - Math.clz32(parseInt(hex[0], 16));
+}
@@ -0,0 +1,32 @@
+/**
+ * bits.bench.ts - bits.ts 的性能测试文件
+ * 
+ * 比较64位运算使用BigInt和使用[高32位, 低32位]两种表示方式的性能。
+ * 每个测试都执行SHA-512、BLAKE2b中常见的"加法、异或、循环移位"的组合。
+ * 
+ * 使用 `npm run bench` 运行。
+ */
+import { bench, describe } from "vitest";
+import { add64Pair, rotr64, rotr64Pair, uint64PairFromBigInt, xor64Pair } from "./bits.js";
+
+import type { Uint64Pair } from "./bits.js";
+
+const iterations = 1000;
+
+describe("64位的加法、异或和循环移位", () => {
+	bench("BigInt", () => {
+		let a = 0x6a09e667f3bcc908n;
+		const b = 0xbb67ae8584caa73bn;
+		for (let i = 0; i < iterations; i++) {
+			a = rotr64(((a + b) & 0xffffffffffffffffn) ^ b, 24);
+		}
+	});
+
+	bench("[高32位, 低32位]", () => {
+		let a: Uint64Pair = uint64PairFromBigInt(0x6a09e667f3bcc908n);
+		const b: Uint64Pair = uint64PairFromBigInt(0xbb67ae8584caa73bn);
+		for (let i = 0; i < iterations; i++) {
+			a = rotr64Pair(xor64Pair(add64Pair(a, b), b), 24);
+		}
+	});
+});
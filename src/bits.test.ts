@@ -3,13 +3,54 @@
  * 
  * 这个文件包含了针对 `src/bits.ts` 文件中位旋转函数的单元测试。
  * 测试的目的是确保 32 位和 64 位整数的左旋 (rotl) 和右旋 (rotr) 操作能够正确执行。
+ * 此外还测试了 8 位、16 位和任意位宽的旋转，以及位计数、字节交换和位反转函数。
+ * 32 位的取模运算会检查结果总是在 [0, 2^32) 范围内。
+ * 以 [高32位, 低32位] 表示的 64 位运算会与对应的 BigInt 运算逐一比较。
  * 旋转操作是指将数字的二进制位向左或向右移动，移出的位会从另一端循环回来。
  * 
  * 我们使用了 `vitest` 这个测试框架。
  * `test` 定义了具体的测试用例。
  */
 import { test, expect } from "vitest";
-import { rotl32, rotr32, rotl64, rotr64 } from "./bits.js";
+import {
+	add32,
+	add64Pair,
+	and64Pair,
+	bigIntFromUint64Pair,
+	bswap16,
+	bswap32,
+	bswap64,
+	clz32,
+	clz64,
+	ctz32,
+	ctz64,
+	mul32,
+	neg32,
+	not64Pair,
+	or64Pair,
+	popcount32,
+	popcount64,
+	reverseBits32,
+	reverseBits64,
+	rotl,
+	rotl8,
+	rotl16,
+	rotl32,
+	rotl64,
+	rotl64Pair,
+	rotr8,
+	rotr16,
+	rotr32,
+	rotr64,
+	rotr64Pair,
+	shl32,
+	shl64Pair,
+	shr32,
+	shr64Pair,
+	sub32,
+	uint64PairFromBigInt,
+	xor64Pair
+} from "./bits.js";
 
 // 测试 32 位整数左旋 (Rotate Left 32-bit)
 // rotl32(value, amount): 将 value 的二进制表示向左旋转 amount 位
@@ -50,3 +91,176 @@ test("rotr64()", () => {
 		0b1100000000000000000000000000000000000000000000000000000000000011n
 	);
 });
+
+// 测试 8 位和 16 位整数的旋转，旋转位数会对位宽取模
+test("rotl8()/rotr8()/rotl16()/rotr16()", () => {
+	expect(rotl8(0b10000001, 1)).toBe(0b00000011);
+	expect(rotr8(0b10000001, 1)).toBe(0b11000000);
+	expect(rotl8(0b10110101, 0)).toBe(0b10110101);
+	expect(rotl8(0b10110101, 9)).toBe(rotl8(0b10110101, 1));
+	expect(rotr8(0b10110101, 3)).toBe(0b10110110);
+	expect(rotl16(0x8001, 4)).toBe(0x0018);
+	expect(rotr16(0x8001, 4)).toBe(0x1800);
+	expect(rotr16(0x1234, 16)).toBe(0x1234);
+});
+
+// 测试任意位宽的旋转
+test("rotl()", () => {
+	expect(rotl(0b100000000001, 1, 12)).toBe(0b000000000011);
+	// 负数表示向右旋转
+	expect(rotl(0b100000000001, -1, 12)).toBe(0b110000000000);
+	// 与固定位宽的版本结果相同
+	expect(rotl(0xf0000000, 2, 32)).toBe(rotl32(0xf0000000, 2));
+	expect(rotl(0xf0000000, 0, 32)).toBe(0xf0000000);
+	expect(rotl(0x81, 1, 8)).toBe(rotl8(0x81, 1));
+	expect(rotl(0xf000000000000000n, 2, 64)).toBe(rotl64(0xf000000000000000n, 2));
+	expect(rotl(1n << 99n, 1, 100)).toBe(1n);
+	expect(() => rotl(1, 1, 33)).toThrowError("Invalid width");
+	expect(() => rotl(1, 1, 0)).toThrowError("Invalid width");
+});
+
+// 测试 1 的个数
+test("popcount32()/popcount64()", () => {
+	expect(popcount32(0)).toBe(0);
+	expect(popcount32(0b1011)).toBe(3);
+	expect(popcount32(0xffffffff)).toBe(32);
+	expect(popcount32(0x80000001)).toBe(2);
+	expect(popcount64(0n)).toBe(0);
+	expect(popcount64(0xffffffffffffffffn)).toBe(64);
+	expect(popcount64(0x8000000100000001n)).toBe(3);
+});
+
+// 测试前导 0 和末尾 0 的个数
+test("clz32()/clz64()/ctz32()/ctz64()", () => {
+	expect(clz32(0)).toBe(32);
+	expect(clz32(1)).toBe(31);
+	expect(clz32(0x80000000)).toBe(0);
+	expect(clz64(0n)).toBe(64);
+	expect(clz64(1n)).toBe(63);
+	expect(clz64(0x0000000100000000n)).toBe(31);
+	expect(clz64(0x8000000000000000n)).toBe(0);
+	expect(ctz32(0)).toBe(32);
+	expect(ctz32(1)).toBe(0);
+	expect(ctz32(0b1000)).toBe(3);
+	expect(ctz32(0x80000000)).toBe(31);
+	expect(ctz64(0n)).toBe(64);
+	expect(ctz64(0x0000000100000000n)).toBe(32);
+	expect(ctz64(0x8000000000000000n)).toBe(63);
+});
+
+// 测试字节交换
+test("bswap16()/bswap32()/bswap64()", () => {
+	expect(bswap16(0x1234)).toBe(0x3412);
+	expect(bswap16(0x00ff)).toBe(0xff00);
+	expect(bswap32(0x12345678)).toBe(0x78563412);
+	expect(bswap32(0x000000ff)).toBe(0xff000000);
+	expect(bswap64(0x0102030405060708n)).toBe(0x0807060504030201n);
+	expect(bswap64(0xffn)).toBe(0xff00000000000000n);
+});
+
+// 测试位反转
+test("reverseBits32()/reverseBits64()", () => {
+	expect(reverseBits32(0x00000001)).toBe(0x80000000);
+	expect(reverseBits32(0x80000000)).toBe(0x00000001);
+	expect(reverseBits32(0x12345678)).toBe(0x1e6a2c48);
+	expect(reverseBits64(1n)).toBe(0x8000000000000000n);
+	expect(reverseBits64(0x0000000000000003n)).toBe(0xc000000000000000n);
+	expect(reverseBits64(0x123456789abcdef0n)).toBe(0x0f7b3d591e6a2c48n);
+});
+
+// 测试 32 位的取模运算，结果总是在 [0, 2^32) 范围内
+test("add32()/sub32()/mul32()/neg32()", () => {
+	expect(add32()).toBe(0);
+	expect(add32(1, 2, 3)).toBe(6);
+	expect(add32(0xffffffff, 2)).toBe(1);
+	expect(add32(0xffffffff, 0xffffffff, 0xffffffff)).toBe(0xfffffffd);
+	expect(sub32(0, 1)).toBe(0xffffffff);
+	expect(sub32(5, 3)).toBe(2);
+	expect(mul32(0xffffffff, 0xffffffff)).toBe(1);
+	expect(mul32(0x12345678, 0x9abcdef0)).toBe(Number((0x12345678n * 0x9abcdef0n) & 0xffffffffn));
+	expect(neg32(0)).toBe(0);
+	expect(Object.is(neg32(0), 0)).toBe(true);
+	expect(neg32(1)).toBe(0xffffffff);
+	expect(neg32(0x80000000)).toBe(0x80000000);
+});
+
+// 测试负数和非整数的参数会先转换为 32 位无符号整数
+test("32 位运算参数的转换", () => {
+	expect(add32(-1, 0)).toBe(0xffffffff);
+	expect(add32(1.9, 1.9)).toBe(2);
+	expect(add32(2 ** 32 + 5)).toBe(5);
+	expect(sub32(-1, -2)).toBe(1);
+	expect(mul32(-1, 2)).toBe(0xfffffffe);
+	expect(neg32(-1)).toBe(1);
+	expect(shl32(-1, 4)).toBe(0xfffffff0);
+	expect(shr32(-1, 4)).toBe(0x0fffffff);
+	expect(shr32(0xff, 1.5)).toBe(0x7f);
+});
+
+// 测试 32 位的移位，移位位数大于等于 32 时结果为 0
+test("shl32()/shr32()", () => {
+	expect(shl32(0x80000001, 1)).toBe(2);
+	expect(shl32(1, 31)).toBe(0x80000000);
+	expect(shl32(1, 32)).toBe(0);
+	expect(shl32(1, 0)).toBe(1);
+	expect(shr32(0x80000000, 31)).toBe(1);
+	expect(shr32(0x80000000, 0)).toBe(0x80000000);
+	expect(shr32(0xffffffff, 32)).toBe(0);
+	expect(shr32(0xffffffff, -1)).toBe(0);
+});
+
+// 用于比较[高32位, 低32位]的运算与BigInt运算的64位测试数据
+const uint64Values = [
+	0n,
+	1n,
+	0xffffffffn,
+	0x100000000n,
+	0x8000000000000000n,
+	0xffffffffffffffffn,
+	0x0123456789abcdefn,
+	0xfedcba9876543210n,
+	0x6a09e667f3bcc908n
+];
+
+// 测试 BigInt 与 [高32位, 低32位] 之间的转换
+test("uint64PairFromBigInt()/bigIntFromUint64Pair()", () => {
+	expect(uint64PairFromBigInt(0x0123456789abcdefn)).toStrictEqual([0x01234567, 0x89abcdef]);
+	expect(uint64PairFromBigInt(0x10000000000000001n)).toStrictEqual([0, 1]);
+	for (const x of uint64Values) {
+		expect(bigIntFromUint64Pair(uint64PairFromBigInt(x))).toBe(x);
+	}
+});
+
+// 测试 64 位的加法和按位运算，结果应该与 BigInt 运算逐位相同
+test("add64Pair()/xor64Pair()/and64Pair()/or64Pair()/not64Pair()", () => {
+	const mask = 0xffffffffffffffffn;
+	for (const a of uint64Values) {
+		const pa = uint64PairFromBigInt(a);
+		expect(not64Pair(pa)).toStrictEqual(uint64PairFromBigInt(~a & mask));
+		for (const b of uint64Values) {
+			const pb = uint64PairFromBigInt(b);
+			expect(add64Pair(pa, pb)).toStrictEqual(uint64PairFromBigInt((a + b) & mask));
+			expect(xor64Pair(pa, pb)).toStrictEqual(uint64PairFromBigInt(a ^ b));
+			expect(and64Pair(pa, pb)).toStrictEqual(uint64PairFromBigInt(a & b));
+			expect(or64Pair(pa, pb)).toStrictEqual(uint64PairFromBigInt(a | b));
+		}
+	}
+});
+
+// 测试 64 位的移位和旋转，结果应该与 BigInt 运算和 rotl64()/rotr64() 逐位相同
+test("shl64Pair()/shr64Pair()/rotl64Pair()/rotr64Pair()", () => {
+	const mask = 0xffffffffffffffffn;
+	for (const x of uint64Values) {
+		const pair = uint64PairFromBigInt(x);
+		for (let n = 0; n < 64; n++) {
+			expect(shl64Pair(pair, n)).toStrictEqual(uint64PairFromBigInt((x << BigInt(n)) & mask));
+			expect(shr64Pair(pair, n)).toStrictEqual(uint64PairFromBigInt(x >> BigInt(n)));
+			expect(rotl64Pair(pair, n)).toStrictEqual(uint64PairFromBigInt(rotl64(x, n)));
+			expect(rotr64Pair(pair, n)).toStrictEqual(uint64PairFromBigInt(rotr64(x, n)));
+		}
+		expect(shl64Pair(pair, 64)).toStrictEqual([0, 0]);
+		expect(shr64Pair(pair, 64)).toStrictEqual([0, 0]);
+		expect(rotl64Pair(pair, 64)).toStrictEqual(pair);
+		expect(rotr64Pair(pair, 65)).toStrictEqual(uint64PairFromBigInt(rotr64(x, 1)));
+	}
+});
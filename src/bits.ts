@@ -99,3 +99,508 @@ export function rotr64(x: bigint, n: number): bigint {
 export function rotl64(x: bigint, n: number): bigint {
 	return ((x << BigInt(n)) | (x >> BigInt(64 - n))) & 0xffffffffffffffffn;
 }
+
+/**
+ * 8位数字向左循环移位
+ * 
+ * 移位的位数会对8取模，所以 rotl8(x, 9) 与 rotl8(x, 1) 相同。
+ * 
+ * @param x 要移位的8位无符号整数
+ * @param n 向左移位的位数
+ * @returns 循环移位后的结果
+ */
+export function rotl8(x: number, n: number): number {
+	n &= 7;
+	return ((x << n) | ((x & 0xff) >>> (8 - n))) & 0xff;
+}
+
+/**
+ * 8位数字向右循环移位
+ * 
+ * 移位的位数会对8取模。
+ * 
+ * @param x 要移位的8位无符号整数
+ * @param n 向右移位的位数
+ * @returns 循环移位后的结果
+ */
+export function rotr8(x: number, n: number): number {
+	return rotl8(x, 8 - (n & 7));
+}
+
+/**
+ * 16位数字向左循环移位
+ * 
+ * 移位的位数会对16取模。
+ * 
+ * @param x 要移位的16位无符号整数
+ * @param n 向左移位的位数
+ * @returns 循环移位后的结果
+ */
+export function rotl16(x: number, n: number): number {
+	n &= 15;
+	return ((x << n) | ((x & 0xffff) >>> (16 - n))) & 0xffff;
+}
+
+/**
+ * 16位数字向右循环移位
+ * 
+ * 移位的位数会对16取模。
+ * 
+ * @param x 要移位的16位无符号整数
+ * @param n 向右移位的位数
+ * @returns 循环移位后的结果
+ */
+export function rotr16(x: number, n: number): number {
+	return rotl16(x, 16 - (n & 15));
+}
+
+/**
+ * 任意位宽的数字向左循环移位
+ * 
+ * number类型的位宽最多为32，bigint类型的位宽没有限制。
+ * 移位的位数会对位宽取模，负数表示向右循环移位，例如 rotl(x, -1, 12) 等于 rotl(x, 11, 12)。
+ * 超出位宽的高位会被忽略。
+ * 
+ * 例如：rotl(0b100000000001, 1, 12) 返回 0b000000000011
+ * 
+ * @param x 要移位的无符号整数
+ * @param n 向左移位的位数
+ * @param width 位宽(正整数)
+ * @returns 循环移位后的结果
+ * @throws 如果位宽无效，抛出TypeError
+ */
+export function rotl(x: number, n: number, width: number): number;
+export function rotl(x: bigint, n: number, width: number): bigint;
+export function rotl(x: number | bigint, n: number, width: number): number | bigint {
+	if (!Number.isInteger(width) || width < 1 || (typeof x === "number" && width > 32)) {
+		throw new TypeError("Invalid width");
+	}
+	n = ((n % width) + width) % width;
+	if (typeof x === "bigint") {
+		const mask = (1n << BigInt(width)) - 1n;
+		x &= mask;
+		return ((x << BigInt(n)) | (x >> BigInt(width - n))) & mask;
+	}
+	// 位宽为32时 2 ** width - 1 不能用 1 << width 计算
+	const mask = 2 ** width - 1;
+	x = (x & mask) >>> 0;
+	return (((x << n) | (x >>> (width - n))) & mask) >>> 0;
+}
+
+/**
+ * 计算32位数字中1的个数(population count)
+ * 
+ * 使用并行计数的方法：先计算每2位中1的个数，再合并为每4位、每8位，最后把4个字节的计数相加。
+ * 
+ * 例如：popcount32(0b1011) 返回 3
+ * 
+ * @param x 32位无符号整数
+ * @returns 1的个数(0-32)
+ */
+export function popcount32(x: number): number {
+	x = x - ((x >>> 1) & 0x55555555);
+	x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+	x = (x + (x >>> 4)) & 0x0f0f0f0f;
+	// 乘以0x01010101会把4个字节的计数累加到最高的字节中
+	return Math.imul(x, 0x01010101) >>> 24;
+}
+
+/**
+ * 计算64位数字中1的个数
+ * 
+ * @param x 64位无符号整数(BigInt类型)
+ * @returns 1的个数(0-64)
+ */
+export function popcount64(x: bigint): number {
+	return popcount32(Number((x >> 32n) & 0xffffffffn)) + popcount32(Number(x & 0xffffffffn));
+}
+
+/**
+ * 计算32位数字的前导0的个数(count leading zeros)
+ * 
+ * 与Math.clz32()相同，x为0时返回32。
+ * 
+ * @param x 32位无符号整数
+ * @returns 前导0的个数(0-32)
+ */
+export function clz32(x: number): number {
+	return Math.clz32(x);
+}
+
+/**
+ * 计算64位数字的前导0的个数
+ * 
+ * @param x 64位无符号整数(BigInt类型)
+ * @returns 前导0的个数(0-64)，x为0时返回64
+ */
+export function clz64(x: bigint): number {
+	const high = Number((x >> 32n) & 0xffffffffn);
+	if (high !== 0) {
+		return Math.clz32(high);
+	}
+	return 32 + Math.clz32(Number(x & 0xffffffffn));
+}
+
+/**
+ * 计算32位数字的末尾0的个数(count trailing zeros)
+ * 
+ * x & -x 只保留最低的1，它的前导0的个数可以换算为末尾0的个数。
+ * 
+ * @param x 32位无符号整数
+ * @returns 末尾0的个数(0-32)，x为0时返回32
+ */
+export function ctz32(x: number): number {
+	if ((x | 0) === 0) {
+		return 32;
+	}
+	return 31 - Math.clz32(x & -x);
+}
+
+/**
+ * 计算64位数字的末尾0的个数
+ * 
+ * @param x 64位无符号整数(BigInt类型)
+ * @returns 末尾0的个数(0-64)，x为0时返回64
+ */
+export function ctz64(x: bigint): number {
+	const low = Number(x & 0xffffffffn);
+	if (low !== 0) {
+		return ctz32(low);
+	}
+	return 32 + ctz32(Number((x >> 32n) & 0xffffffffn));
+}
+
+/**
+ * 交换16位数字的字节顺序
+ * 
+ * 例如：bswap16(0x1234) 返回 0x3412
+ * 
+ * @param x 16位无符号整数
+ * @returns 交换字节顺序后的结果
+ */
+export function bswap16(x: number): number {
+	return ((x & 0xff) << 8) | ((x >>> 8) & 0xff);
+}
+
+/**
+ * 交换32位数字的字节顺序
+ * 
+ * 例如：bswap32(0x12345678) 返回 0x78563412
+ * 
+ * @param x 32位无符号整数
+ * @returns 交换字节顺序后的结果
+ */
+export function bswap32(x: number): number {
+	return (((x & 0xff) << 24) | ((x & 0xff00) << 8) | ((x >>> 8) & 0xff00) | (x >>> 24)) >>> 0;
+}
+
+/**
+ * 交换64位数字的字节顺序
+ * 
+ * 例如：bswap64(0x0102030405060708n) 返回 0x0807060504030201n
+ * 
+ * @param x 64位无符号整数(BigInt类型)
+ * @returns 交换字节顺序后的结果(BigInt类型)
+ */
+export function bswap64(x: bigint): bigint {
+	const high = Number((x >> 32n) & 0xffffffffn);
+	const low = Number(x & 0xffffffffn);
+	return (BigInt(bswap32(low)) << 32n) | BigInt(bswap32(high));
+}
+
+/**
+ * 反转32位数字的位顺序
+ * 
+ * 先交换相邻的1位、2位、4位，使每个字节内的位反转，再交换字节的顺序。
+ * 
+ * 例如：reverseBits32(0x00000001) 返回 0x80000000
+ * 
+ * @param x 32位无符号整数
+ * @returns 反转位顺序后的结果
+ */
+export function reverseBits32(x: number): number {
+	x = ((x >>> 1) & 0x55555555) | ((x & 0x55555555) << 1);
+	x = ((x >>> 2) & 0x33333333) | ((x & 0x33333333) << 2);
+	x = ((x >>> 4) & 0x0f0f0f0f) | ((x & 0x0f0f0f0f) << 4);
+	return bswap32(x);
+}
+
+/**
+ * 反转64位数字的位顺序
+ * 
+ * @param x 64位无符号整数(BigInt类型)
+ * @returns 反转位顺序后的结果(BigInt类型)
+ */
+export function reverseBits64(x: bigint): bigint {
+	const high = Number((x >> 32n) & 0xffffffffn);
+	const low = Number(x & 0xffffffffn);
+	return (BigInt(reverseBits32(low)) << 32n) | BigInt(reverseBits32(high));
+}
+
+/**
+ * 32位无符号整数相加，结果对2^32取模
+ * 
+ * 所有参数都先按 x >>> 0 转换为32位无符号整数：小数部分被截断，负数和超出32位的值对2^32取模，
+ * 例如 -1 被当作 0xffffffff。下面的32位运算函数都使用同样的转换。
+ * 
+ * 例如：add32(0xffffffff, 2) 返回 1，add32(1, 2, 3) 返回 6
+ * 
+ * @param values 要相加的数
+ * @returns 所有参数的和 mod 2^32，没有参数时返回0
+ */
+export function add32(...values: number[]): number {
+	let sum = 0;
+	for (const value of values) {
+		// 每次相加后都取模，避免参数很多时超出number可以精确表示的范围
+		sum = (sum + (value >>> 0)) >>> 0;
+	}
+	return sum;
+}
+
+/**
+ * 32位无符号整数相减，结果对2^32取模
+ * 
+ * 例如：sub32(0, 1) 返回 0xffffffff
+ * 
+ * @param a 被减数
+ * @param b 减数
+ * @returns (a - b) mod 2^32
+ */
+export function sub32(a: number, b: number): number {
+	return ((a >>> 0) - (b >>> 0)) >>> 0;
+}
+
+/**
+ * 32位无符号整数相乘，结果对2^32取模
+ * 
+ * 直接相乘的结果可能超过2^53而丢失精度，所以使用Math.imul()计算低32位。
+ * 
+ * 例如：mul32(0xffffffff, 0xffffffff) 返回 1
+ * 
+ * @param a 乘数
+ * @param b 乘数
+ * @returns (a * b) mod 2^32
+ */
+export function mul32(a: number, b: number): number {
+	return Math.imul(a >>> 0, b >>> 0) >>> 0;
+}
+
+/**
+ * 32位无符号整数取负，结果对2^32取模
+ * 
+ * 例如：neg32(1) 返回 0xffffffff，neg32(0) 返回 0
+ * 
+ * @param x 32位无符号整数
+ * @returns (2^32 - x) mod 2^32
+ */
+export function neg32(x: number): number {
+	return (0 - (x >>> 0)) >>> 0;
+}
+
+/**
+ * 32位无符号整数左移，移出32位的位会被丢弃
+ * 
+ * JavaScript的 << 运算符只使用移位位数的低5位，所以 x << 32 等于 x。
+ * 这里移位的位数大于等于32时返回0。
+ * 
+ * @param x 32位无符号整数
+ * @param n 向左移位的位数
+ * @returns (x << n) mod 2^32
+ */
+export function shl32(x: number, n: number): number {
+	n >>>= 0;
+	if (n >= 32) {
+		return 0;
+	}
+	return (x << n) >>> 0;
+}
+
+/**
+ * 32位无符号整数逻辑右移
+ * 
+ * 与shl32()一样，移位的位数大于等于32时返回0。
+ * 
+ * @param x 32位无符号整数
+ * @param n 向右移位的位数
+ * @returns x >>> n
+ */
+export function shr32(x: number, n: number): number {
+	n >>>= 0;
+	if (n >= 32) {
+		return 0;
+	}
+	return x >>> n;
+}
+
+/**
+ * 用两个32位无符号整数表示的64位无符号整数：[高32位, 低32位]
+ * 
+ * BigInt的每次运算都会分配新的对象，在SHA-512、BLAKE2b这类大量使用64位运算的算法中开销很大。
+ * 下面以Pair结尾的函数只使用32位的number运算，结果与对应的BigInt运算逐位相同。
+ * 
+ * 例如：0x0123456789abcdefn 表示为 [0x01234567, 0x89abcdef]
+ */
+export type Uint64Pair = [high: number, low: number];
+
+/**
+ * 把64位无符号整数(BigInt类型)转换为[高32位, 低32位]
+ * 
+ * 超出64位的高位会被忽略。
+ * 
+ * @param x 64位无符号整数(BigInt类型)
+ * @returns [高32位, 低32位]
+ */
+export function uint64PairFromBigInt(x: bigint): Uint64Pair {
+	return [Number((x >> 32n) & 0xffffffffn), Number(x & 0xffffffffn)];
+}
+
+/**
+ * 把[高32位, 低32位]转换为64位无符号整数(BigInt类型)
+ * 
+ * @param x [高32位, 低32位]
+ * @returns 64位无符号整数(BigInt类型)
+ */
+export function bigIntFromUint64Pair(x: Uint64Pair): bigint {
+	return (BigInt(x[0] >>> 0) << 32n) | BigInt(x[1] >>> 0);
+}
+
+/**
+ * 64位无符号整数相加，结果对2^64取模
+ * 
+ * 先相加低32位，如果结果超过32位，就向高32位进1。
+ * 
+ * @param a [高32位, 低32位]
+ * @param b [高32位, 低32位]
+ * @returns (a + b) mod 2^64
+ */
+export function add64Pair(a: Uint64Pair, b: Uint64Pair): Uint64Pair {
+	const low = (a[1] >>> 0) + (b[1] >>> 0);
+	// low最大为2^33-2，超过32位时向高32位进1
+	const carry = low > 0xffffffff ? 1 : 0;
+	return [(a[0] + b[0] + carry) >>> 0, low >>> 0];
+}
+
+/**
+ * 64位无符号整数的按位异或
+ * 
+ * @param a [高32位, 低32位]
+ * @param b [高32位, 低32位]
+ * @returns a ^ b
+ */
+export function xor64Pair(a: Uint64Pair, b: Uint64Pair): Uint64Pair {
+	return [(a[0] ^ b[0]) >>> 0, (a[1] ^ b[1]) >>> 0];
+}
+
+/**
+ * 64位无符号整数的按位与
+ * 
+ * @param a [高32位, 低32位]
+ * @param b [高32位, 低32位]
+ * @returns a & b
+ */
+export function and64Pair(a: Uint64Pair, b: Uint64Pair): Uint64Pair {
+	return [(a[0] & b[0]) >>> 0, (a[1] & b[1]) >>> 0];
+}
+
+/**
+ * 64位无符号整数的按位或
+ * 
+ * @param a [高32位, 低32位]
+ * @param b [高32位, 低32位]
+ * @returns a | b
+ */
+export function or64Pair(a: Uint64Pair, b: Uint64Pair): Uint64Pair {
+	return [(a[0] | b[0]) >>> 0, (a[1] | b[1]) >>> 0];
+}
+
+/**
+ * 64位无符号整数的按位取反
+ * 
+ * @param x [高32位, 低32位]
+ * @returns ~x & 0xffffffffffffffff
+ */
+export function not64Pair(x: Uint64Pair): Uint64Pair {
+	return [~x[0] >>> 0, ~x[1] >>> 0];
+}
+
+/**
+ * 64位无符号整数左移，移出64位的位会被丢弃
+ * 
+ * 移位的位数大于等于64时返回0。
+ * 
+ * @param x [高32位, 低32位]
+ * @param n 向左移位的位数(非负整数)
+ * @returns (x << n) & 0xffffffffffffffff
+ */
+export function shl64Pair(x: Uint64Pair, n: number): Uint64Pair {
+	const [high, low] = x;
+	if (n === 0) {
+		return [high >>> 0, low >>> 0];
+	}
+	if (n < 32) {
+		return [((high << n) | (low >>> (32 - n))) >>> 0, (low << n) >>> 0];
+	}
+	if (n < 64) {
+		return [(low << (n - 32)) >>> 0, 0];
+	}
+	return [0, 0];
+}
+
+/**
+ * 64位无符号整数逻辑右移
+ * 
+ * 移位的位数大于等于64时返回0。
+ * 
+ * @param x [高32位, 低32位]
+ * @param n 向右移位的位数(非负整数)
+ * @returns x >> n
+ */
+export function shr64Pair(x: Uint64Pair, n: number): Uint64Pair {
+	const [high, low] = x;
+	if (n === 0) {
+		return [high >>> 0, low >>> 0];
+	}
+	if (n < 32) {
+		return [high >>> n, ((low >>> n) | (high << (32 - n))) >>> 0];
+	}
+	if (n < 64) {
+		return [0, high >>> (n - 32)];
+	}
+	return [0, 0];
+}
+
+/**
+ * 64位无符号整数向左循环移位
+ * 
+ * 移位的位数会对64取模。
+ * 移位32位相当于交换高32位和低32位，所以大于32位的移位先交换，再移位剩下的位数。
+ * 
+ * @param x [高32位, 低32位]
+ * @param n 向左移位的位数
+ * @returns 循环移位后的结果，与rotl64()相同
+ */
+export function rotl64Pair(x: Uint64Pair, n: number): Uint64Pair {
+	n &= 63;
+	let [high, low] = x;
+	if (n >= 32) {
+		[high, low] = [low, high];
+		n -= 32;
+	}
+	if (n === 0) {
+		return [high >>> 0, low >>> 0];
+	}
+	return [((high << n) | (low >>> (32 - n))) >>> 0, ((low << n) | (high >>> (32 - n))) >>> 0];
+}
+
+/**
+ * 64位无符号整数向右循环移位
+ * 
+ * 移位的位数会对64取模。
+ * 
+ * @param x [高32位, 低32位]
+ * @param n 向右移位的位数
+ * @returns 循环移位后的结果，与rotr64()相同
+ */
+export function rotr64Pair(x: Uint64Pair, n: number): Uint64Pair {
+	return rotl64Pair(x, 64 - (n & 63));
+}
@@ -0,0 +1,214 @@
+/**
+ * bitstream.test.ts - bitstream.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/bitstream.ts` 中 `BitReader` 和 `BitWriter` 类的单元测试。
+ * 测试的目的是确保两种位的顺序(msb和lsb)下，任意位宽的值和指数哥伦布编码都能正确读写，
+ * 并且读取超出范围时的错误包含位的位置。
+ */
+import { describe, expect, test } from "vitest";
+import { BitReader, BitWriter } from "./bitstream.js";
+import { DynamicBuffer, SegmentedBuffer } from "./bytes.js";
+
+describe("BitReader", () => {
+	// 测试高位在前读取
+	test("BitReader.readBits() msb", () => {
+		const reader = new BitReader(new Uint8Array([0b10110011, 0b11110000, 0x12, 0x34, 0x56, 0x78]));
+		expect(reader.readBit()).toBe(1);
+		expect(reader.readBits(3)).toBe(0b011);
+		// 跨越字节边界
+		expect(reader.readBits(8)).toBe(0b00111111);
+		expect(reader.position).toBe(12);
+		expect(reader.remaining).toBe(36);
+		expect(reader.readBits(0)).toBe(0);
+		expect(reader.readBits(4)).toBe(0);
+		expect(reader.readBits(32)).toBe(0x12345678);
+	});
+
+	// 测试低位在前读取
+	test("BitReader.readBits() lsb", () => {
+		const reader = new BitReader(new Uint8Array([0b10110011, 0b11110000]), "lsb");
+		expect(reader.readBit()).toBe(1);
+		expect(reader.readBits(3)).toBe(0b001);
+		// 跨越字节边界：第一个字节的高4位是值的低4位
+		expect(reader.readBits(8)).toBe(0b00001011);
+		expect(reader.readBits(4)).toBe(0b1111);
+	});
+
+	test("BitReader.readBigBits()", () => {
+		const data = new Uint8Array([0xf1, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef, 0xff]);
+		const msb = new BitReader(data);
+		msb.readBits(4);
+		expect(msb.readBigBits(64)).toBe(0x123456789abcdeffn);
+		const lsb = new BitReader(data, "lsb");
+		expect(lsb.readBigBits(64)).toBe(0xefcdab89674523f1n);
+		expect(lsb.readBigBits(8)).toBe(0xffn);
+		expect(() => new BitReader(data).readBigBits(65)).toThrowError("Invalid bit size");
+	});
+
+	// 测试读取超出范围时，错误包含位的位置，并且不会移动位置
+	test("BitReader 位数不足", () => {
+		const reader = new BitReader(new Uint8Array([0xff]));
+		reader.readBits(5);
+		expect(() => reader.readBits(4)).toThrowError("Insufficient bits at bit position 5");
+		expect(() => reader.readBigBits(40)).toThrowError("Insufficient bits at bit position 5");
+		expect(() => reader.skipBits(4)).toThrowError("Insufficient bits at bit position 5");
+		expect(reader.position).toBe(5);
+		expect(reader.readBits(3)).toBe(0b111);
+		expect(() => reader.readBits(33)).toThrowError("Invalid bit size");
+	});
+
+	test("BitReader.skipBits()/alignToByte()", () => {
+		const reader = new BitReader(new Uint8Array([0xff, 0x80, 0x01]));
+		reader.skipBits(3);
+		reader.alignToByte();
+		expect(reader.position).toBe(8);
+		reader.alignToByte();
+		expect(reader.position).toBe(8);
+		expect(reader.readBit()).toBe(1);
+		reader.alignToByte();
+		reader.skipBits(7);
+		expect(reader.readBit()).toBe(1);
+		expect(reader.remaining).toBe(0);
+	});
+
+	test("BitReader.readExpGolomb()/readSignedExpGolomb()", () => {
+		// 1 010 011 00100 00101 => 0 1 2 3 4
+		const reader = new BitReader(new Uint8Array([0b10100110, 0b01000010, 0b10000000]));
+		expect([0, 1, 2, 3, 4].map(() => reader.readExpGolomb())).toStrictEqual([0, 1, 2, 3, 4]);
+		// 1 010 011 00100 00101 => 0 1 -1 2 -2
+		const signed = new BitReader(new Uint8Array([0b10100110, 0b01000010, 0b10000000]));
+		expect([0, 1, 2, 3, 4].map(() => signed.readSignedExpGolomb())).toStrictEqual([
+			0, 1, -1, 2, -2
+		]);
+		// 编码不完整时不会移动位置
+		const truncated = new BitReader(new Uint8Array([0b00000001]));
+		truncated.skipBits(1);
+		expect(() => truncated.readExpGolomb()).toThrowError("Insufficient bits");
+		expect(truncated.position).toBe(1);
+		expect(() => new BitReader(new Uint8Array(5)).readExpGolomb()).toThrowError(
+			"Invalid exp-Golomb code"
+		);
+
+		// 边界：31个前导0是允许的最大值 2^32-2
+		const max = new BitReader(new Uint8Array([0x00, 0x00, 0x00, 0x01, 0xff, 0xff, 0xff, 0xfe]));
+		expect(max.readExpGolomb()).toBe(0xfffffffe);
+		expect(max.position).toBe(63);
+		// 32个前导0(2^32-1)超出范围，并且不会移动位置
+		const tooLarge = new BitReader(
+			new Uint8Array([0x00, 0x00, 0x00, 0x00, 0x80, 0x00, 0x00, 0x00, 0x00])
+		);
+		expect(() => tooLarge.readExpGolomb()).toThrowError("Invalid exp-Golomb code");
+		expect(() => tooLarge.readSignedExpGolomb()).toThrowError("Invalid exp-Golomb code");
+		expect(tooLarge.position).toBe(0);
+	});
+});
+
+describe("BitWriter", () => {
+	test("BitWriter.writeBits() msb", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BitWriter(buffer);
+		writer.writeBit(1);
+		writer.writeBits(0b011, 3);
+		writer.writeBits(0b00111111, 8);
+		expect(writer.position).toBe(12);
+		writer.writeBits(0, 4);
+		writer.writeBits(0x12345678, 32);
+		expect(buffer.bytes()).toStrictEqual(
+			new Uint8Array([0b10110011, 0b11110000, 0x12, 0x34, 0x56, 0x78])
+		);
+		expect(() => writer.writeBits(8, 3)).toThrowError("Invalid bits value");
+		expect(() => writer.writeBits(0, 33)).toThrowError("Invalid bit size");
+	});
+
+	test("BitWriter.writeBits() lsb", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BitWriter(buffer, "lsb");
+		writer.writeBit(1);
+		writer.writeBits(0b001, 3);
+		writer.writeBits(0b00001011, 8);
+		writer.writeBits(0b1111, 4);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([0b10110011, 0b11110000]));
+	});
+
+	// 测试写入后读取得到相同的值
+	test("BitWriter.writeBigBits()", () => {
+		for (const bitOrder of ["msb", "lsb"] as const) {
+			const buffer = new DynamicBuffer(0);
+			const writer = new BitWriter(buffer, bitOrder);
+			writer.writeBits(0b101, 3);
+			writer.writeBigBits(0xfedcba9876543210n, 64);
+			writer.writeBigBits(0x1ffffffffn, 33);
+			writer.alignToByte();
+			const reader = new BitReader(buffer.bytes(), bitOrder);
+			expect(reader.readBits(3)).toBe(0b101);
+			expect(reader.readBigBits(64)).toBe(0xfedcba9876543210n);
+			expect(reader.readBigBits(33)).toBe(0x1ffffffffn);
+			expect(() => writer.writeBigBits(2n ** 40n, 40)).toThrowError("Invalid bits value");
+		}
+	});
+
+	// 测试对齐：不完整的字节用0填充后写入缓冲区
+	test("BitWriter.alignToByte()", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BitWriter(buffer);
+		writer.writeBits(0b11, 2);
+		expect(buffer.length).toBe(0);
+		writer.alignToByte();
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([0b11000000]));
+		writer.alignToByte();
+		expect(writer.position).toBe(8);
+	});
+
+	test("BitWriter.writeExpGolomb()/writeSignedExpGolomb()", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BitWriter(buffer);
+		for (const value of [0, 1, 2, 3, 4]) {
+			writer.writeExpGolomb(value);
+		}
+		writer.alignToByte();
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([0b10100110, 0b01000010, 0b10000000]));
+		expect(() => writer.writeExpGolomb(-1)).toThrowError("Invalid exp-Golomb value");
+		// 边界：2^32-2 需要31个前导0，2^32-1 需要32个，超出范围
+		expect(() => writer.writeExpGolomb(0xffffffff)).toThrowError("Invalid exp-Golomb value");
+		expect(() => writer.writeSignedExpGolomb(2 ** 31)).toThrowError("Invalid exp-Golomb value");
+		expect(() => writer.writeSignedExpGolomb(-(2 ** 31))).toThrowError("Invalid exp-Golomb value");
+		const maxBuffer = new DynamicBuffer(0);
+		const maxWriter = new BitWriter(maxBuffer);
+		maxWriter.writeExpGolomb(0xfffffffe);
+		expect(maxWriter.position).toBe(63);
+		maxWriter.alignToByte();
+		expect(maxBuffer.bytes()).toStrictEqual(
+			new Uint8Array([0x00, 0x00, 0x00, 0x01, 0xff, 0xff, 0xff, 0xfe])
+		);
+
+		for (const bitOrder of ["msb", "lsb"] as const) {
+			const values = [0, 1, -1, 100, -100, 0x7fffffff, -0x7fffffff];
+			const signedBuffer = new DynamicBuffer(0);
+			const signedWriter = new BitWriter(signedBuffer, bitOrder);
+			for (const value of values) {
+				signedWriter.writeSignedExpGolomb(value);
+			}
+			signedWriter.writeExpGolomb(0xfffffffe);
+			signedWriter.alignToByte();
+			const reader = new BitReader(signedBuffer.bytes(), bitOrder);
+			expect(values.map(() => reader.readSignedExpGolomb())).toStrictEqual(values);
+			expect(reader.readExpGolomb()).toBe(0xfffffffe);
+		}
+	});
+
+	// 测试写入 SegmentedBuffer 得到与 DynamicBuffer 相同的结果
+	test("SegmentedBuffer", () => {
+		const dynamic = new DynamicBuffer(0);
+		const segmented = new SegmentedBuffer(2);
+		for (const buffer of [dynamic, segmented]) {
+			const writer = new BitWriter(buffer);
+			for (let i = 0; i < 20; i++) {
+				writer.writeBits(i, 5);
+				writer.writeExpGolomb(i);
+			}
+			writer.alignToByte();
+			expect(writer.position).toBe(buffer.length * 8);
+		}
+		expect(segmented.bytes()).toStrictEqual(dynamic.bytes());
+	});
+});
@@ -0,0 +1,395 @@
+/**
+ * bitstream.ts - 按位读写的比特流
+ * 
+ * BinaryReader和BinaryWriter以字节为单位读写，但有些格式把字段按位紧密排列，
+ * 例如H.264的SPS头、QR码的数据流、压缩椭圆曲线点的标志位等。
+ * BitReader和BitWriter以位为单位读写任意位宽(最多64位)的无符号整数。
+ * 
+ * 位的顺序有两种：
+ * - "msb"：先读写每个字节的最高位，多位的值也是高位在前(H.264、MPEG等大部分格式)
+ * - "lsb"：先读写每个字节的最低位，多位的值也是低位在前(DEFLATE等格式)
+ * 
+ * 例如，字节 0b10110000 按"msb"读取3位得到 0b101 = 5，按"lsb"读取3位得到 0b000 = 0。
+ * 
+ * 本模块还支持指数哥伦布编码(exp-Golomb)，H.264用它编码大部分头部字段：
+ * 值v先加1，然后写入 (v+1的位数-1) 个0，再按高位在前写入v+1。
+ * 例如 0 => 1，1 => 010，2 => 011，3 => 00100。
+ */
+
+import type { WriteTarget } from "./bytes.js";
+
+/**
+ * 位的顺序
+ * 
+ * - "msb"：高位在前
+ * - "lsb"：低位在前
+ */
+export type BitOrder = "msb" | "lsb";
+
+/**
+ * 按位读取的读取器类
+ * 
+ * 包装一个Uint8Array，并记录当前读取的位的位置。
+ * 位数不足时抛出的TypeError包含当前的位位置，并且出错时不会移动当前位置。
+ */
+export class BitReader {
+	/**
+	 * 要读取的字节数组
+	 */
+	private data: Uint8Array;
+
+	/**
+	 * 位的顺序
+	 */
+	private bitOrder: BitOrder;
+
+	/**
+	 * 当前读取的位的位置(相对于data的开头)
+	 */
+	private offset = 0;
+
+	/**
+	 * 创建一个新的按位读取的读取器
+	 * 
+	 * @param data 要读取的字节数组
+	 * @param bitOrder 位的顺序，默认为"msb"
+	 */
+	constructor(data: Uint8Array, bitOrder: BitOrder = "msb") {
+		this.data = data;
+		this.bitOrder = bitOrder;
+	}
+
+	/**
+	 * 当前读取的位的位置
+	 */
+	public get position(): number {
+		return this.offset;
+	}
+
+	/**
+	 * 剩余未读取的位数
+	 */
+	public get remaining(): number {
+		return this.data.byteLength * 8 - this.offset;
+	}
+
+	/**
+	 * 读取1位
+	 * 
+	 * @returns 0或1
+	 * @throws 如果位数不足，抛出TypeError
+	 */
+	public readBit(): number {
+		return this.readBits(1);
+	}
+
+	/**
+	 * 读取最多32位的无符号整数
+	 * 
+	 * @param size 位数(0-32)
+	 * @returns 无符号整数
+	 * @throws 如果位数无效或不足，抛出TypeError
+	 */
+	public readBits(size: number): number {
+		checkBitSize(size, 32);
+		this.checkRemaining(size);
+		let value = 0;
+		// 每次读取当前字节中剩余的位，最后一次可能只读取一部分
+		for (let read = 0; read < size;) {
+			const byte = this.data[this.offset >> 3];
+			const bitOffset = this.offset & 7;
+			const take = Math.min(8 - bitOffset, size - read);
+			const mask = (1 << take) - 1;
+			if (this.bitOrder === "msb") {
+				const bits = (byte >> (8 - bitOffset - take)) & mask;
+				// 使用乘法而不是左移，避免32位时的符号问题
+				value = value * 2 ** take + bits;
+			} else {
+				const bits = (byte >> bitOffset) & mask;
+				value += bits * 2 ** read;
+			}
+			read += take;
+			this.offset += take;
+		}
+		return value;
+	}
+
+	/**
+	 * 读取最多64位的无符号整数
+	 * 
+	 * @param size 位数(0-64)
+	 * @returns 无符号整数(BigInt类型)
+	 * @throws 如果位数无效或不足，抛出TypeError
+	 */
+	public readBigBits(size: number): bigint {
+		checkBitSize(size, 64);
+		this.checkRemaining(size);
+		if (size <= 32) {
+			return BigInt(this.readBits(size));
+		}
+		if (this.bitOrder === "msb") {
+			const high = this.readBits(size - 32);
+			const low = this.readBits(32);
+			return (BigInt(high) << 32n) | BigInt(low);
+		}
+		const low = this.readBits(32);
+		const high = this.readBits(size - 32);
+		return (BigInt(high) << 32n) | BigInt(low);
+	}
+
+	/**
+	 * 跳过指定的位数
+	 * 
+	 * @param size 要跳过的位数
+	 * @throws 如果位数无效或不足，抛出TypeError
+	 */
+	public skipBits(size: number): void {
+		if (!Number.isInteger(size) || size < 0) {
+			throw new TypeError("Invalid bit size");
+		}
+		this.checkRemaining(size);
+		this.offset += size;
+	}
+
+	/**
+	 * 跳过当前字节中剩余的位，使位置对齐到字节的边界
+	 * 
+	 * 如果已经对齐，则不移动位置。
+	 */
+	public alignToByte(): void {
+		this.offset = Math.ceil(this.offset / 8) * 8;
+	}
+
+	/**
+	 * 读取无符号指数哥伦布编码的整数(H.264中的ue(v))
+	 * 
+	 * 指数哥伦布编码是按位的序列定义的，所以无论位的顺序如何，前导0之后的位总是按高位在前读取。
+	 * 
+	 * 与H.264一样，前导0最多31个，所以值的范围与writeExpGolomb()相同(0到2^32-2)。
+	 * 
+	 * @returns 无符号整数(0到2^32-2)
+	 * @throws 如果位数不足，或者前导0超过31个，抛出TypeError
+	 */
+	public readExpGolomb(): number {
+		const start = this.offset;
+		try {
+			let leadingZeros = 0;
+			while (this.readBit() === 0) {
+				leadingZeros++;
+				if (leadingZeros > 31) {
+					throw new TypeError("Invalid exp-Golomb code");
+				}
+			}
+			let value = 1;
+			for (let i = 0; i < leadingZeros; i++) {
+				value = value * 2 + this.readBit();
+			}
+			return value - 1;
+		} catch (e) {
+			this.offset = start;
+			throw e;
+		}
+	}
+
+	/**
+	 * 读取有符号指数哥伦布编码的整数(H.264中的se(v))
+	 * 
+	 * 无符号的值k按 0 => 0，1 => 1，2 => -1，3 => 2，4 => -2 ... 映射为有符号整数。
+	 * 
+	 * @returns 有符号整数(-(2^31-1)到2^31-1)
+	 * @throws 如果位数不足，或者前导0超过31个，抛出TypeError
+	 */
+	public readSignedExpGolomb(): number {
+		const k = this.readExpGolomb();
+		if (k % 2 === 1) {
+			return (k + 1) / 2;
+		}
+		// 避免k为0时返回-0
+		return k === 0 ? 0 : -(k / 2);
+	}
+
+	/**
+	 * 检查剩余的位数是否足够
+	 * 
+	 * @param size 需要的位数
+	 * @throws 如果位数不足，抛出包含当前位位置的TypeError
+	 */
+	private checkRemaining(size: number): void {
+		if (this.remaining < size) {
+			throw new TypeError(`Insufficient bits at bit position ${this.offset}`);
+		}
+	}
+}
+
+/**
+ * 按位写入的写入器类
+ * 
+ * 把按位写入的值追加到写入目标(DynamicBuffer或SegmentedBuffer)的末尾。
+ * 凑满8位的字节才会写入缓冲区，所以写入完成后需要调用alignToByte()，用0填充并写入最后一个不完整的字节。
+ */
+export class BitWriter {
+	/**
+	 * 写入的目标缓冲区
+	 */
+	private buffer: WriteTarget;
+
+	/**
+	 * 位的顺序
+	 */
+	private bitOrder: BitOrder;
+
+	/**
+	 * 还没有写入缓冲区的不完整的字节
+	 */
+	private current = 0;
+
+	/**
+	 * current中已写入的位数(0-7)
+	 */
+	private currentSize = 0;
+
+	/**
+	 * 创建一个新的按位写入的写入器
+	 * 
+	 * @param buffer 写入的目标缓冲区
+	 * @param bitOrder 位的顺序，默认为"msb"
+	 */
+	constructor(buffer: WriteTarget, bitOrder: BitOrder = "msb") {
+		this.buffer = buffer;
+		this.bitOrder = bitOrder;
+	}
+
+	/**
+	 * 当前写入的位的位置，包括还没有写入缓冲区的位
+	 */
+	public get position(): number {
+		return this.buffer.length * 8 + this.currentSize;
+	}
+
+	/**
+	 * 写入1位
+	 * 
+	 * @param bit 0或1
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeBit(bit: number): void {
+		this.writeBits(bit, 1);
+	}
+
+	/**
+	 * 写入最多32位的无符号整数
+	 * 
+	 * @param value 无符号整数(0到2^size-1)
+	 * @param size 位数(0-32)
+	 * @throws 如果位数或值无效，抛出TypeError
+	 */
+	public writeBits(value: number, size: number): void {
+		checkBitSize(size, 32);
+		if (!Number.isInteger(value) || value < 0 || value >= 2 ** size) {
+			throw new TypeError("Invalid bits value");
+		}
+		for (let written = 0; written < size;) {
+			const take = Math.min(8 - this.currentSize, size - written);
+			if (this.bitOrder === "msb") {
+				const bits = Math.floor(value / 2 ** (size - written - take)) % 2 ** take;
+				this.current |= bits << (8 - this.currentSize - take);
+			} else {
+				const bits = Math.floor(value / 2 ** written) % 2 ** take;
+				this.current |= bits << this.currentSize;
+			}
+			written += take;
+			this.currentSize += take;
+			if (this.currentSize === 8) {
+				this.buffer.writeByte(this.current);
+				this.current = 0;
+				this.currentSize = 0;
+			}
+		}
+	}
+
+	/**
+	 * 写入最多64位的无符号整数
+	 * 
+	 * @param value 无符号整数(0到2^size-1，BigInt类型)
+	 * @param size 位数(0-64)
+	 * @throws 如果位数或值无效，抛出TypeError
+	 */
+	public writeBigBits(value: bigint, size: number): void {
+		checkBitSize(size, 64);
+		if (value < 0n || value >= 1n << BigInt(size)) {
+			throw new TypeError("Invalid bits value");
+		}
+		if (size <= 32) {
+			this.writeBits(Number(value), size);
+			return;
+		}
+		const high = Number(value >> 32n);
+		const low = Number(value & 0xffffffffn);
+		if (this.bitOrder === "msb") {
+			this.writeBits(high, size - 32);
+			this.writeBits(low, 32);
+		} else {
+			this.writeBits(low, 32);
+			this.writeBits(high, size - 32);
+		}
+	}
+
+	/**
+	 * 写入0直到位置对齐到字节的边界，并把最后一个不完整的字节写入缓冲区
+	 * 
+	 * 如果已经对齐，则不写入任何内容。
+	 */
+	public alignToByte(): void {
+		if (this.currentSize > 0) {
+			this.writeBits(0, 8 - this.currentSize);
+		}
+	}
+
+	/**
+	 * 写入无符号指数哥伦布编码的整数(H.264中的ue(v))
+	 * 
+	 * 与BitReader.readExpGolomb()一样，前导0之后的位总是按高位在前写入。
+	 * 
+	 * @param value 无符号整数(0到2^32-2，即前导0最多31个)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeExpGolomb(value: number): void {
+		if (!Number.isInteger(value) || value < 0 || value > 0xfffffffe) {
+			throw new TypeError("Invalid exp-Golomb value");
+		}
+		const code = value + 1;
+		const size = 32 - Math.clz32(code);
+		for (let i = 1; i < size; i++) {
+			this.writeBit(0);
+		}
+		for (let i = size - 1; i >= 0; i--) {
+			this.writeBit(Math.floor(code / 2 ** i) % 2);
+		}
+	}
+
+	/**
+	 * 写入有符号指数哥伦布编码的整数(H.264中的se(v))
+	 * 
+	 * @param value 有符号整数(-(2^31-1)到2^31-1)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeSignedExpGolomb(value: number): void {
+		if (!Number.isInteger(value) || Math.abs(value) > 0x7fffffff) {
+			throw new TypeError("Invalid exp-Golomb value");
+		}
+		this.writeExpGolomb(value > 0 ? value * 2 - 1 : -value * 2);
+	}
+}
+
+/**
+ * 检查位数是否有效
+ * 
+ * @param size 位数
+ * @param max 最大位数
+ * @throws 如果位数无效，抛出TypeError
+ */
+function checkBitSize(size: number, max: number): void {
+	if (!Number.isInteger(size) || size < 0 || size > max) {
+		throw new TypeError("Invalid bit size");
+	}
+}
@@ -0,0 +1,53 @@
+/**
+ * bytes.bench.ts - bytes.ts 的性能测试文件
+ * 
+ * 比较xorBytesInto()和逐字节异或的性能。
+ * xorBytesInto()在byteOffset对齐时每次处理4个字节。
+ * 
+ * 比较用DynamicBuffer和SegmentedBuffer累积数据的性能。
+ * SegmentedBuffer追加数据时不复制已有的数据，只在最后调用bytes()时复制一次。
+ * 
+ * 使用 `npm run bench` 运行。
+ */
+import { bench, describe } from "vitest";
+import { DynamicBuffer, SegmentedBuffer, xorBytesInto } from "./bytes.js";
+
+const a = new Uint8Array(65536).map((_, i) => i & 0xff);
+const b = new Uint8Array(65536).map((_, i) => (i * 7) & 0xff);
+const target = new Uint8Array(65536);
+
+describe("64KiB的异或", () => {
+	bench("逐字节", () => {
+		for (let i = 0; i < target.byteLength; i++) {
+			target[i] = a[i] ^ b[i];
+		}
+	});
+
+	bench("xorBytesInto()", () => {
+		xorBytesInto(target, a, b);
+	});
+});
+
+const chunk = new Uint8Array(1000);
+
+describe("累积4MB的数据(每次写入1000字节)", () => {
+	bench("DynamicBuffer", () => {
+		const buffer = new DynamicBuffer(0);
+		for (let i = 0; i < 4000; i++) {
+			buffer.write(chunk);
+		}
+		if (buffer.bytes().byteLength !== 4000000) {
+			throw new Error("Unexpected length");
+		}
+	});
+
+	bench("SegmentedBuffer", () => {
+		const buffer = new SegmentedBuffer();
+		for (let i = 0; i < 4000; i++) {
+			buffer.write(chunk);
+		}
+		if (buffer.bytes().byteLength !== 4000000) {
+			throw new Error("Unexpected length");
+		}
+	});
+});
@@ -11,7 +11,36 @@
  */
 import { describe, expect, test } from "vitest";
 
-import { compareBytes, concatenateBytes, DynamicBuffer } from "./bytes.js";
+import {
+	andBytes,
+	andBytesInto,
+	binarySearchBytes,
+	BufferCapacityError,
+	compareBytes,
+	compareBytesOrder,
+	compareBytesConstantTime,
+	concatenateBytes,
+	concatenateBytesInto,
+	conditionalCopy,
+	conditionalSwap,
+	DynamicBuffer,
+	endsWithBytes,
+	equalBytesConstantTime,
+	includesBytes,
+	indexOfBytes,
+	lastIndexOfBytes,
+	notBytes,
+	notBytesInto,
+	orBytes,
+	orBytesInto,
+	SegmentedBuffer,
+	select,
+	sortBytes,
+	splitBytes,
+	startsWithBytes,
+	xorBytes,
+	xorBytesInto
+} from "./bytes.js";
 
 // 测试 compareBytes 函数
 test("compareBytes()", () => {
@@ -34,6 +63,224 @@ test("compareBytes()", () => {
 	expect(compareBytes(new Uint8Array(0), new Uint8Array(1))).toBe(false);
 });
 
+// 测试 equalBytesConstantTime 函数：结果应该与 compareBytes 一致
+test("equalBytesConstantTime()", () => {
+	const randomBytes = new Uint8Array(32);
+	crypto.getRandomValues(randomBytes);
+	expect(equalBytesConstantTime(randomBytes, randomBytes.slice())).toBe(true);
+
+	// 只有最后一个字节不同
+	const modified = randomBytes.slice();
+	modified[31] ^= 0x01;
+	expect(equalBytesConstantTime(randomBytes, modified)).toBe(false);
+
+	expect(equalBytesConstantTime(new Uint8Array(0), new Uint8Array(0))).toBe(true);
+	expect(equalBytesConstantTime(new Uint8Array(0), new Uint8Array(1))).toBe(false);
+});
+
+// 测试 compareBytesConstantTime 函数：按字典序比较
+test("compareBytesConstantTime()", () => {
+	expect(compareBytesConstantTime(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(0);
+	expect(compareBytesConstantTime(new Uint8Array([1, 2, 3]), new Uint8Array([1, 3, 0]))).toBe(-1);
+	expect(compareBytesConstantTime(new Uint8Array([2, 0, 0]), new Uint8Array([1, 255, 255]))).toBe(
+		1
+	);
+	// 只有第一个不同的字节决定结果
+	expect(compareBytesConstantTime(new Uint8Array([0, 255]), new Uint8Array([1, 0]))).toBe(-1);
+	// 前缀更小
+	expect(compareBytesConstantTime(new Uint8Array([1, 2]), new Uint8Array([1, 2, 0]))).toBe(-1);
+	expect(compareBytesConstantTime(new Uint8Array([1, 2, 0]), new Uint8Array([1, 2]))).toBe(1);
+	expect(compareBytesConstantTime(new Uint8Array([255]), new Uint8Array([0]))).toBe(1);
+});
+
+// 测试常量时间的选择、复制和交换
+test("select()/conditionalCopy()/conditionalSwap()", () => {
+	const a = new Uint8Array([1, 2, 3]);
+	const b = new Uint8Array([4, 5, 6]);
+	expect(select(true, a, b)).toStrictEqual(new Uint8Array([1, 2, 3]));
+	expect(select(false, a, b)).toStrictEqual(new Uint8Array([4, 5, 6]));
+
+	const target = new Uint8Array([7, 8, 9]);
+	conditionalCopy(false, target, a);
+	expect(target).toStrictEqual(new Uint8Array([7, 8, 9]));
+	conditionalCopy(true, target, a);
+	expect(target).toStrictEqual(new Uint8Array([1, 2, 3]));
+
+	conditionalSwap(false, a, b);
+	expect(a).toStrictEqual(new Uint8Array([1, 2, 3]));
+	expect(b).toStrictEqual(new Uint8Array([4, 5, 6]));
+	conditionalSwap(true, a, b);
+	expect(a).toStrictEqual(new Uint8Array([4, 5, 6]));
+	expect(b).toStrictEqual(new Uint8Array([1, 2, 3]));
+
+	// 长度不同时抛出错误
+	expect(() => select(true, a, new Uint8Array(2))).toThrowError("Length mismatch");
+	expect(() => conditionalCopy(true, a, new Uint8Array(2))).toThrowError("Length mismatch");
+	expect(() => conditionalSwap(true, a, new Uint8Array(2))).toThrowError("Length mismatch");
+});
+
+// 测试按位运算，结果应该与逐字节计算的结果相同
+test("xorBytes()/andBytes()/orBytes()/notBytes()", () => {
+	expect(xorBytes(new Uint8Array([0x0f, 0xf0]), new Uint8Array([0xff, 0xff]))).toStrictEqual(
+		new Uint8Array([0xf0, 0x0f])
+	);
+	expect(notBytes(new Uint8Array([0x00, 0x5a]))).toStrictEqual(new Uint8Array([0xff, 0xa5]));
+	expect(xorBytes(new Uint8Array(0), new Uint8Array(0))).toStrictEqual(new Uint8Array(0));
+
+	// 包括按4字节处理的部分和剩下的部分，以及byteOffset没有对齐的视图
+	const buffer = new Uint8Array(80).map((_, i) => (i * 37 + 11) & 0xff);
+	for (const [offset, length] of [
+		[0, 35],
+		[1, 35],
+		[4, 32],
+		[0, 3]
+	]) {
+		const a = buffer.subarray(offset, offset + length);
+		const b = buffer.subarray(40, 40 + length);
+		expect(xorBytes(a, b)).toStrictEqual(a.map((x, i) => x ^ b[i]));
+		expect(andBytes(a, b)).toStrictEqual(a.map((x, i) => x & b[i]));
+		expect(orBytes(a, b)).toStrictEqual(a.map((x, i) => x | b[i]));
+		expect(notBytes(a)).toStrictEqual(a.map((x) => ~x & 0xff));
+	}
+
+	expect(() => xorBytes(new Uint8Array(3), new Uint8Array(2))).toThrowError("Length mismatch");
+	expect(() => andBytes(new Uint8Array(3), new Uint8Array(4))).toThrowError("Length mismatch");
+	expect(() => orBytes(new Uint8Array(0), new Uint8Array(1))).toThrowError("Length mismatch");
+});
+
+// 测试写入目标数组和原地修改的按位运算
+test("xorBytesInto()/andBytesInto()/orBytesInto()/notBytesInto()", () => {
+	const a = new Uint8Array(21).map((_, i) => i * 13);
+	const b = new Uint8Array(21).map((_, i) => 0xff - i);
+	const expected = a.map((x, i) => x ^ b[i]);
+
+	const target = new Uint8Array(21);
+	xorBytesInto(target, a, b);
+	expect(target).toStrictEqual(expected);
+	andBytesInto(target, a, b);
+	expect(target).toStrictEqual(a.map((x, i) => x & b[i]));
+	orBytesInto(target, a, b);
+	expect(target).toStrictEqual(a.map((x, i) => x | b[i]));
+	notBytesInto(target, a);
+	expect(target).toStrictEqual(a.map((x) => ~x & 0xff));
+
+	// 原地修改：再次异或同一个密钥流会还原数据
+	const data = a.slice();
+	xorBytesInto(data, data, b);
+	expect(data).toStrictEqual(expected);
+	xorBytesInto(data, b, data);
+	expect(data).toStrictEqual(a);
+	notBytesInto(data, data);
+	notBytesInto(data, data);
+	expect(data).toStrictEqual(a);
+
+	expect(() => xorBytesInto(new Uint8Array(20), a, b)).toThrowError("Length mismatch");
+	expect(() => andBytesInto(target, a, new Uint8Array(20))).toThrowError("Length mismatch");
+	expect(() => orBytesInto(new Uint8Array(22), a, b)).toThrowError("Length mismatch");
+	expect(() => notBytesInto(new Uint8Array(20), a)).toThrowError("Length mismatch");
+});
+
+// 测试 compareBytesOrder 函数：按字典序比较
+test("compareBytesOrder()", () => {
+	expect(compareBytesOrder(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(0);
+	expect(compareBytesOrder(new Uint8Array([1, 2, 3]), new Uint8Array([1, 3]))).toBe(-1);
+	expect(compareBytesOrder(new Uint8Array([2]), new Uint8Array([1, 255]))).toBe(1);
+	// 前缀更小
+	expect(compareBytesOrder(new Uint8Array([]), new Uint8Array([0]))).toBe(-1);
+	expect(compareBytesOrder(new Uint8Array([1, 2, 0]), new Uint8Array([1, 2]))).toBe(1);
+});
+
+// 测试 sortBytes 和 binarySearchBytes 函数
+test("sortBytes()/binarySearchBytes()", () => {
+	const values = [
+		new Uint8Array([3]),
+		new Uint8Array([1, 2]),
+		new Uint8Array([1]),
+		new Uint8Array([255, 0]),
+		new Uint8Array([])
+	];
+	// sortBytes 直接修改传入的列表
+	expect(sortBytes(values)).toBe(values);
+	expect(values).toStrictEqual([
+		new Uint8Array([]),
+		new Uint8Array([1]),
+		new Uint8Array([1, 2]),
+		new Uint8Array([3]),
+		new Uint8Array([255, 0])
+	]);
+
+	expect(binarySearchBytes(values, new Uint8Array([]))).toBe(0);
+	expect(binarySearchBytes(values, new Uint8Array([1, 2]))).toBe(2);
+	expect(binarySearchBytes(values, new Uint8Array([255, 0]))).toBe(4);
+	// 没有找到时返回 -(插入位置 + 1)
+	expect(binarySearchBytes(values, new Uint8Array([2]))).toBe(-4);
+	expect(binarySearchBytes(values, new Uint8Array([255, 1]))).toBe(-6);
+	expect(binarySearchBytes([], new Uint8Array([1]))).toBe(-1);
+});
+
+// 测试 indexOfBytes 和 lastIndexOfBytes 函数
+test("indexOfBytes()/lastIndexOfBytes()", () => {
+	const crlf = new Uint8Array([0x0d, 0x0a]);
+	const data = new Uint8Array([0x0d, 0x0a, 0x41, 0x0d, 0x0d, 0x0a, 0x42]);
+	expect(indexOfBytes(data, crlf)).toBe(0);
+	expect(indexOfBytes(data, crlf, 1)).toBe(4);
+	expect(indexOfBytes(data, crlf, 5)).toBe(-1);
+	expect(lastIndexOfBytes(data, crlf)).toBe(4);
+	expect(lastIndexOfBytes(data, crlf, 3)).toBe(0);
+	expect(lastIndexOfBytes(data, crlf, -1)).toBe(-1);
+
+	// 单个字节
+	expect(indexOfBytes(data, new Uint8Array([0x42]))).toBe(6);
+	expect(lastIndexOfBytes(data, new Uint8Array([0x0d]))).toBe(4);
+	// 空的子序列与 String.prototype.indexOf() 的行为一致
+	expect(indexOfBytes(data, new Uint8Array(0), 2)).toBe(2);
+	expect(lastIndexOfBytes(data, new Uint8Array(0))).toBe(7);
+	// 子序列比数组更长
+	expect(indexOfBytes(crlf, data)).toBe(-1);
+	expect(lastIndexOfBytes(crlf, data)).toBe(-1);
+
+	// 匹配失败后需要根据部分匹配表回退的情况
+	const repeated = new Uint8Array([1, 2, 1, 2, 1, 2, 3, 1, 2, 1, 2, 3]);
+	expect(indexOfBytes(repeated, new Uint8Array([1, 2, 1, 2, 3]))).toBe(2);
+	expect(lastIndexOfBytes(repeated, new Uint8Array([1, 2, 1, 2, 3]))).toBe(7);
+	expect(lastIndexOfBytes(repeated, new Uint8Array([2, 1, 2, 1]))).toBe(1);
+});
+
+// 测试 startsWithBytes、endsWithBytes 和 includesBytes 函数
+test("startsWithBytes()/endsWithBytes()/includesBytes()", () => {
+	const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+	expect(startsWithBytes(png, new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(true);
+	expect(startsWithBytes(png, new Uint8Array([0x50]))).toBe(false);
+	expect(startsWithBytes(new Uint8Array([0x89]), png)).toBe(false);
+	expect(endsWithBytes(png, new Uint8Array([0x1a, 0x0a]))).toBe(true);
+	expect(endsWithBytes(png, new Uint8Array([0x0d, 0x0a]))).toBe(false);
+	expect(endsWithBytes(png, new Uint8Array(0))).toBe(true);
+	expect(includesBytes(png, new Uint8Array([0x47, 0x0d]))).toBe(true);
+	expect(includesBytes(png, new Uint8Array([0x47, 0x0a]))).toBe(false);
+});
+
+// 测试 splitBytes 函数
+test("splitBytes()", () => {
+	const data = new Uint8Array([0x61, 0x2c, 0x2c, 0x62, 0x2c]);
+	const parts = splitBytes(data, new Uint8Array([0x2c]));
+	expect(parts).toStrictEqual([
+		new Uint8Array([0x61]),
+		new Uint8Array([]),
+		new Uint8Array([0x62]),
+		new Uint8Array([])
+	]);
+	// 返回的是原数组的视图
+	expect(parts[0].buffer).toBe(data.buffer);
+
+	expect(
+		splitBytes(new Uint8Array([1, 0x0d, 0x0a, 2, 0x0d, 0x0a]), new Uint8Array([0x0d, 0x0a]))
+	).toStrictEqual([new Uint8Array([1]), new Uint8Array([2]), new Uint8Array([])]);
+	expect(splitBytes(new Uint8Array([1, 2]), new Uint8Array([3]))).toStrictEqual([
+		new Uint8Array([1, 2])
+	]);
+	expect(() => splitBytes(data, new Uint8Array(0))).toThrowError("Empty separator");
+});
+
 // 测试 concatenateBytes 函数
 test("concatenateBytes()", () => {
 	// 定义两个简单的字节数组
@@ -42,6 +289,44 @@ test("concatenateBytes()", () => {
 	// 期望：连接 a 和 b，结果应该是 [0, 1, 2, 3, 4]
 	// toStrictEqual 会检查数组的内容和类型是否完全相等
 	expect(concatenateBytes(a, b)).toStrictEqual(new Uint8Array([0, 1, 2, 3, 4]));
+
+	// 可以传入任意数量的字节数组
+	const c = new Uint8Array([5]);
+	expect(concatenateBytes(a, b, c)).toStrictEqual(new Uint8Array([0, 1, 2, 3, 4, 5]));
+	expect(concatenateBytes(a)).toStrictEqual(new Uint8Array([0, 1]));
+	expect(concatenateBytes()).toStrictEqual(new Uint8Array(0));
+	// 也可以传入可迭代对象
+	expect(concatenateBytes([a, b, c])).toStrictEqual(new Uint8Array([0, 1, 2, 3, 4, 5]));
+	function* generate(): Generator<Uint8Array> {
+		yield c;
+		yield a;
+	}
+	expect(concatenateBytes(generate())).toStrictEqual(new Uint8Array([5, 0, 1]));
+});
+
+// 测试 concatenateBytesInto 函数
+test("concatenateBytesInto()", () => {
+	const target = new Uint8Array(6);
+	const end = concatenateBytesInto(target, 1, new Uint8Array([1, 2]), new Uint8Array([3]));
+	// 返回写入结束的位置
+	expect(end).toBe(4);
+	expect(concatenateBytesInto(target, end, new Uint8Array([4, 5]))).toBe(6);
+	expect(target).toStrictEqual(new Uint8Array([0, 1, 2, 3, 4, 5]));
+	expect(concatenateBytesInto(target, 6)).toBe(6);
+
+	// 空间不足时抛出错误，并且不写入任何内容
+	expect(() =>
+		concatenateBytesInto(target, 4, new Uint8Array([9]), new Uint8Array([9, 9]))
+	).toThrowError("Not enough space");
+	expect(target).toStrictEqual(new Uint8Array([0, 1, 2, 3, 4, 5]));
+
+	// 偏移位置不是非负整数时抛出错误，并且不写入任何内容
+	for (const offset of [NaN, 1.5, -1, Infinity]) {
+		expect(() => concatenateBytesInto(target, offset, new Uint8Array([9]))).toThrowError(
+			"Invalid offset"
+		);
+	}
+	expect(target).toStrictEqual(new Uint8Array([0, 1, 2, 3, 4, 5]));
 });
 
 // 使用 describe 对 DynamicBuffer 类的测试进行分组
@@ -90,4 +375,317 @@ describe("DynamicBuffer", () => {
 		// 期望：缓冲区内容为 [0x01, 0x02, 0x03, 0x04]
 		expect(buffer.bytes()).toStrictEqual(new Uint8Array([0x01, 0x02, 0x03, 0x04]));
 	});
+
+	// 测试 view 方法：返回不复制数据的视图
+	test("DynamicBuffer.view()", () => {
+		const buffer = new DynamicBuffer(4);
+		buffer.write(new Uint8Array([1, 2, 3]));
+		const view = buffer.view();
+		expect(view).toStrictEqual(new Uint8Array([1, 2, 3]));
+		// bytes() 返回副本，view() 返回内部数组的视图
+		expect(buffer.bytes().buffer).not.toBe(view.buffer);
+		expect(buffer.view().buffer).toBe(view.buffer);
+
+		// clear() 之后的写入会覆盖视图中的字节
+		buffer.clear();
+		buffer.writeByte(9);
+		expect(view).toStrictEqual(new Uint8Array([9, 2, 3]));
+		// 扩容后视图仍然指向旧的数组
+		buffer.write(new Uint8Array(10));
+		expect(buffer.view().buffer).not.toBe(view.buffer);
+	});
+
+	// 测试 truncate 方法
+	test("DynamicBuffer.truncate()", () => {
+		const buffer = new DynamicBuffer(8);
+		buffer.write(new Uint8Array([1, 2, 3, 4]));
+		buffer.truncate(2);
+		expect(buffer.length).toBe(2);
+		expect(buffer.capacity).toBe(8);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2]));
+		buffer.writeByte(5);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 5]));
+		buffer.truncate(3);
+		expect(buffer.length).toBe(3);
+		expect(() => buffer.truncate(4)).toThrowError("Invalid length");
+		expect(() => buffer.truncate(-1)).toThrowError("Invalid length");
+		expect(() => buffer.truncate(1.5)).toThrowError("Invalid length");
+		buffer.truncate(0);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array(0));
+	});
+
+	// 测试 reserve 和 shrinkToFit 方法
+	test("DynamicBuffer.reserve()/DynamicBuffer.shrinkToFit()", () => {
+		const buffer = new DynamicBuffer(2);
+		buffer.write(new Uint8Array([1, 2]));
+		// 扩容到正好能容纳预留的字节数
+		buffer.reserve(100);
+		expect(buffer.capacity).toBe(102);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2]));
+		// 容量足够时不会改变
+		buffer.reserve(10);
+		expect(buffer.capacity).toBe(102);
+		buffer.write(new Uint8Array(100));
+		expect(buffer.capacity).toBe(102);
+		expect(() => buffer.reserve(-1)).toThrowError("Invalid length");
+
+		buffer.truncate(3);
+		buffer.shrinkToFit();
+		expect(buffer.capacity).toBe(3);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 0]));
+		buffer.writeByte(4);
+		expect(buffer.capacity).toBe(6);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 0, 4]));
+
+		const empty = new DynamicBuffer(16);
+		empty.shrinkToFit();
+		expect(empty.capacity).toBe(0);
+		empty.writeByte(1);
+		expect(empty.bytes()).toStrictEqual(new Uint8Array([1]));
+	});
+
+	// 测试直接使用已有的 Uint8Array 创建缓冲区
+	test("new DynamicBuffer(bytes)", () => {
+		const bytes = new Uint8Array([1, 2, 3]);
+		const buffer = new DynamicBuffer(bytes);
+		expect(buffer.length).toBe(3);
+		expect(buffer.capacity).toBe(3);
+		// 不会复制数组
+		expect(buffer.view().buffer).toBe(bytes.buffer);
+		buffer.writeByte(4);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3, 4]));
+		expect(buffer.capacity).toBe(6);
+		expect(bytes).toStrictEqual(new Uint8Array([1, 2, 3]));
+	});
+
+	// 测试安全模式：被丢弃的内部数组和内容都会被清零
+	test("DynamicBuffer 安全模式", () => {
+		const buffer = new DynamicBuffer(2, { secure: true });
+		buffer.write(new Uint8Array([1, 2]));
+		// 扩容前取得旧的内部数组的视图
+		const old = buffer.view();
+		buffer.write(new Uint8Array([3]));
+		expect(old).toStrictEqual(new Uint8Array([0, 0]));
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3]));
+
+		// writeByte() 和 reserve() 扩容时同样清零
+		const beforeWriteByte = buffer.view();
+		buffer.writeByte(4);
+		buffer.writeByte(5);
+		expect(beforeWriteByte).toStrictEqual(new Uint8Array([0, 0, 0]));
+		const beforeReserve = buffer.view();
+		buffer.reserve(100);
+		expect(beforeReserve).toStrictEqual(new Uint8Array(5));
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3, 4, 5]));
+
+		// truncate() 清零被丢弃的内容
+		const current = buffer.view();
+		buffer.truncate(3);
+		expect(current).toStrictEqual(new Uint8Array([1, 2, 3, 0, 0]));
+
+		// shrinkToFit() 清零旧的内部数组
+		const beforeShrink = buffer.view();
+		buffer.shrinkToFit();
+		expect(beforeShrink).toStrictEqual(new Uint8Array(3));
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3]));
+
+		// clear() 清零已使用的部分
+		const beforeClear = buffer.view();
+		buffer.clear();
+		expect(beforeClear).toStrictEqual(new Uint8Array(3));
+		expect(buffer.length).toBe(0);
+	});
+
+	// 测试安全模式下扩容后，之前取得的视图读取到的都是0，而 bytes() 返回的副本不受影响
+	test("DynamicBuffer.view() 安全模式", () => {
+		const buffer = new DynamicBuffer(4, { secure: true });
+		buffer.write(new Uint8Array([1, 2, 3]));
+		const view = buffer.view();
+		const copy = buffer.bytes();
+		// 没有扩容时视图仍然有效
+		buffer.writeByte(4);
+		expect(view).toStrictEqual(new Uint8Array([1, 2, 3]));
+		// 扩容后视图变成全0，而不是过时的数据
+		buffer.writeByte(5);
+		expect(view).toStrictEqual(new Uint8Array([0, 0, 0]));
+		expect(copy).toStrictEqual(new Uint8Array([1, 2, 3]));
+		expect(buffer.view()).toStrictEqual(new Uint8Array([1, 2, 3, 4, 5]));
+	});
+
+	// 测试安全模式下直接使用的数组在扩容时也会被清零
+	test("DynamicBuffer 安全模式 new DynamicBuffer(bytes)", () => {
+		const bytes = new Uint8Array([1, 2, 3]);
+		const buffer = new DynamicBuffer(bytes, { secure: true });
+		buffer.writeByte(4);
+		expect(bytes).toStrictEqual(new Uint8Array(3));
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3, 4]));
+	});
+
+	// 测试非安全模式下不会清零
+	test("DynamicBuffer 非安全模式", () => {
+		const buffer = new DynamicBuffer(2);
+		buffer.write(new Uint8Array([1, 2]));
+		const old = buffer.view();
+		buffer.writeByte(3);
+		expect(old).toStrictEqual(new Uint8Array([1, 2]));
+		const current = buffer.view();
+		buffer.clear();
+		expect(current).toStrictEqual(new Uint8Array([1, 2, 3]));
+	});
+
+	// 测试 dispose 方法：清零整个内部数组，包括未使用的容量
+	test("DynamicBuffer.dispose()", () => {
+		const buffer = new DynamicBuffer(8);
+		buffer.write(new Uint8Array([1, 2, 3, 4]));
+		const view = buffer.view();
+		buffer.truncate(2);
+		// 非安全模式下 truncate() 不清零，但 dispose() 会清零全部容量
+		const whole = new Uint8Array(view.buffer);
+		expect(whole.subarray(0, 4)).toStrictEqual(new Uint8Array([1, 2, 3, 4]));
+		buffer.dispose();
+		expect(whole).toStrictEqual(new Uint8Array(8));
+		expect(buffer.length).toBe(0);
+		expect(buffer.capacity).toBe(0);
+
+		// 之后仍然可以继续写入
+		buffer.writeByte(1);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1]));
+	});
+
+	// 测试最大容量：翻倍被限制在最大容量以内，并且可以正好写满
+	test("DynamicBuffer 最大容量", () => {
+		const buffer = new DynamicBuffer(4, { maxCapacity: 10 });
+		expect(buffer.maxCapacity).toBe(10);
+		buffer.write(new Uint8Array(5));
+		expect(buffer.capacity).toBe(8);
+		// 8 翻倍为 16，被限制为 10
+		buffer.write(new Uint8Array(4));
+		expect(buffer.capacity).toBe(10);
+		buffer.writeByte(0xff);
+		expect(buffer.length).toBe(10);
+		expect(buffer.capacity).toBe(10);
+
+		// 超出最大容量时抛出错误，并报告需要的容量
+		expect(() => buffer.writeByte(1)).toThrowError(BufferCapacityError);
+		expect(() => buffer.write(new Uint8Array(3))).toThrowError(
+			"Requested capacity 13 exceeds maximum capacity 10"
+		);
+		let error: unknown = null;
+		try {
+			buffer.write(new Uint8Array(6));
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(BufferCapacityError);
+		expect(error).toBeInstanceOf(TypeError);
+		expect((error as BufferCapacityError).requestedCapacity).toBe(16);
+		expect((error as BufferCapacityError).maxCapacity).toBe(10);
+		// 出错时不写入任何内容
+		expect(buffer.length).toBe(10);
+		expect(buffer.bytes()[9]).toBe(0xff);
+		// 写入空数组不会超出最大容量
+		buffer.write(new Uint8Array(0));
+
+		buffer.truncate(8);
+		expect(() => buffer.reserve(3)).toThrowError(BufferCapacityError);
+		buffer.reserve(2);
+
+		expect(() => new DynamicBuffer(11, { maxCapacity: 10 })).toThrowError(BufferCapacityError);
+		expect(() => new DynamicBuffer(new Uint8Array(3), { maxCapacity: 2 })).toThrowError(
+			BufferCapacityError
+		);
+		expect(() => new DynamicBuffer(0, { maxCapacity: -1 })).toThrowError(
+			"Invalid maximum capacity"
+		);
+		expect(new DynamicBuffer(0).maxCapacity).toBe(Infinity);
+
+		// 容量从 0 开始时也可以正好写满
+		const small = new DynamicBuffer(0, { maxCapacity: 3 });
+		small.writeByte(1);
+		small.writeByte(2);
+		small.writeByte(3);
+		expect(small.capacity).toBe(3);
+		expect(() => small.writeByte(4)).toThrowError(BufferCapacityError);
+	});
+});
+
+describe("SegmentedBuffer", () => {
+	// 测试写入和合并：较小的写入共用一个段，较大的写入成为独立的段
+	test("SegmentedBuffer.write()", () => {
+		const buffer = new SegmentedBuffer(4);
+		buffer.write(new Uint8Array([1, 2]));
+		buffer.writeByte(3);
+		expect(buffer.length).toBe(3);
+		// 剩余的1个字节不够，封闭当前段，较大的写入复制为独立的段
+		buffer.write(new Uint8Array([4, 5, 6, 7, 8]));
+		// 写入当前段剩余的空间
+		buffer.writeByte(9);
+		buffer.write(new Uint8Array(0));
+		expect(buffer.length).toBe(9);
+		expect(Array.from(buffer.segments())).toStrictEqual([
+			new Uint8Array([1, 2, 3]),
+			new Uint8Array([4, 5, 6, 7, 8]),
+			new Uint8Array([9])
+		]);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9]));
+		expect(concatenateBytes(buffer.segments())).toStrictEqual(buffer.bytes());
+	});
+
+	// 测试写入的数据会被复制，并且已经返回的段不会被之后的写入修改
+	test("SegmentedBuffer 复制写入的数据", () => {
+		const buffer = new SegmentedBuffer(8);
+		const data = new Uint8Array([1, 2, 3]);
+		buffer.write(data);
+		const [first] = buffer.segments();
+		data[0] = 0xff;
+		buffer.write(new Uint8Array([4, 5]));
+		expect(first).toStrictEqual(new Uint8Array([1, 2, 3]));
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([1, 2, 3, 4, 5]));
+
+		buffer.clear();
+		expect(buffer.length).toBe(0);
+		expect(Array.from(buffer.segments())).toStrictEqual([]);
+		buffer.write(new Uint8Array([6, 7, 8]));
+		expect(first).toStrictEqual(new Uint8Array([1, 2, 3]));
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([6, 7, 8]));
+	});
+
+	// 测试 byteAt 在所有段中随机访问
+	test("SegmentedBuffer.byteAt()", () => {
+		const buffer = new SegmentedBuffer(3);
+		const expected: number[] = [];
+		for (let i = 0; i < 50; i++) {
+			if (i % 7 === 0) {
+				const chunk = new Uint8Array(i % 5).map((_, j) => (i * 11 + j) & 0xff);
+				buffer.write(chunk);
+				expected.push(...chunk);
+			} else {
+				buffer.writeByte(i);
+				expected.push(i);
+			}
+		}
+		expect(buffer.length).toBe(expected.length);
+		for (let i = 0; i < expected.length; i++) {
+			expect(buffer.byteAt(i)).toBe(expected[i]);
+		}
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array(expected));
+
+		expect(() => buffer.byteAt(-1)).toThrowError("Invalid index");
+		expect(() => buffer.byteAt(expected.length)).toThrowError("Invalid index");
+		expect(() => buffer.byteAt(0.5)).toThrowError("Invalid index");
+		expect(() => new SegmentedBuffer(0)).toThrowError("Invalid segment size");
+	});
+
+	// 测试与 DynamicBuffer 写入相同的内容
+	test("SegmentedBuffer 与 DynamicBuffer 一致", () => {
+		const targets = [new DynamicBuffer(0), new SegmentedBuffer(16)];
+		for (const target of targets) {
+			for (let i = 0; i < 100; i++) {
+				target.write(new Uint8Array(i % 37).fill(i));
+				target.writeByte(i);
+			}
+		}
+		expect(targets[1].length).toBe(targets[0].length);
+		expect(targets[1].bytes()).toStrictEqual(targets[0].bytes());
+	});
 });
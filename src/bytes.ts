@@ -7,9 +7,12 @@
  * 本模块使用JavaScript的Uint8Array类型来表示字节数组，它是一种专门用于存储8位无符号整数（即0-255范围内的数字）的类型化数组。
  * 
  * 主要包含的功能：
- * 1. 比较两个字节数组是否相同
- * 2. 连接两个字节数组
- * 3. 动态缓冲区实现，方便进行字节操作
+ * 1. 比较两个字节数组是否相同(包括常量时间的比较和选择)
+ * 2. 字节数组的按位运算(异或、与、或、取反)
+ * 3. 按字典序比较、排序和查找字节数组
+ * 4. 在字节数组中查找子序列、检查前缀和后缀、按分隔符拆分
+ * 5. 连接多个字节数组
+ * 6. 动态缓冲区和分段缓冲区实现，方便进行字节操作
  */
 
 /**
@@ -21,42 +24,828 @@
  * 
  * 应用场景：比如验证哈希值、校验和、或验证加密操作结果是否符合预期等。
  * 
+ * 注意：这个函数不是常量时间的，不要用它比较MAC、令牌等秘密值，请使用equalBytesConstantTime()。
+ * 
  * @param a 第一个字节数组
  * @param b 第二个字节数组
  * @returns 如果两个数组完全相同返回true，否则返回false
  */
-export function compareBytes(a: Uint8Array, b: Uint8Array): boolean {
-	if (a.byteLength !== b.byteLength) {
-		return false;
+export function compareBytes(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.byteLength !== b.byteLength) {
+		return false;
+	}
+	for (let i = 0; i < b.byteLength; i++) {
+		if (a[i] !== b[i]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * 以常量时间比较两个字节数组是否完全相同
+ * 
+ * compareBytes()在遇到第一个不同的字节时就会返回，所以运行时间会泄露"前面有多少个字节是相同的"。
+ * 攻击者可以通过测量响应时间逐字节地猜出正确的值(计时攻击，timing attack)。
+ * 
+ * 这个函数总是检查所有的字节，并且不根据字节的值进行分支，
+ * 所以运行时间只取决于输入的长度。长度本身被认为不是秘密，长度不同时会直接返回false。
+ * 
+ * 注意：JavaScript引擎的JIT编译器并不保证生成的机器码是常量时间的，这里只能尽力而为。
+ * 
+ * 应用场景：比较MAC(消息认证码)、会话令牌的哈希值、一次性密码(TOTP)等。
+ * 
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns 如果两个数组完全相同返回true，否则返回false
+ */
+export function equalBytesConstantTime(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.byteLength !== b.byteLength) {
+		return false;
+	}
+	let diff = 0;
+	for (let i = 0; i < a.byteLength; i++) {
+		// 只要有一个字节不同，diff中就会有某一位为1
+		diff |= a[i] ^ b[i];
+	}
+	return diff === 0;
+}
+
+/**
+ * 以常量时间按字典序比较两个字节数组
+ * 
+ * 逐字节比较，第一个不同的字节决定结果；如果较短的数组是较长数组的前缀，则较短的数组更小。
+ * 运行时间只取决于输入的长度。
+ * 
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns a小于b时返回-1，相等时返回0，a大于b时返回1
+ */
+export function compareBytesConstantTime(a: Uint8Array, b: Uint8Array): -1 | 0 | 1 {
+	const length = Math.min(a.byteLength, b.byteLength);
+	// greater/less为1表示已经找到第一个不同的字节
+	let greater = 0;
+	let less = 0;
+	for (let i = 0; i < length; i++) {
+		// 两个字节相减，结果为负数时符号位(第31位)为1
+		// 例如a[i]大于b[i]时，b[i] - a[i] 为负数
+		// undecided在找到第一个不同的字节之前为1，之后为0
+		const undecided = ~(greater | less) & 1;
+		greater |= ((b[i] - a[i]) >>> 31) & undecided;
+		less |= ((a[i] - b[i]) >>> 31) & undecided;
+	}
+	if (greater !== less) {
+		return greater === 1 ? 1 : -1;
+	}
+	// 公共部分完全相同时，比较长度
+	if (a.byteLength === b.byteLength) {
+		return 0;
+	}
+	return a.byteLength > b.byteLength ? 1 : -1;
+}
+
+/**
+ * 以常量时间根据条件选择两个字节数组中的一个
+ * 
+ * 返回一个新的字节数组：condition为true时内容与a相同，否则与b相同。
+ * 不会根据condition进行分支，运行时间只取决于输入的长度。
+ * 
+ * @param condition 选择条件
+ * @param a condition为true时选择的字节数组
+ * @param b condition为false时选择的字节数组
+ * @returns 新的字节数组
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function select(condition: boolean, a: Uint8Array, b: Uint8Array): Uint8Array {
+	if (a.byteLength !== b.byteLength) {
+		throw new TypeError("Length mismatch");
+	}
+	const mask = conditionMask(condition);
+	const result = new Uint8Array(a.byteLength);
+	for (let i = 0; i < a.byteLength; i++) {
+		// mask为0xff时结果为a[i]，mask为0时结果为b[i]
+		result[i] = b[i] ^ (mask & (a[i] ^ b[i]));
+	}
+	return result;
+}
+
+/**
+ * 以常量时间根据条件把source复制到target
+ * 
+ * condition为true时把source的内容复制到target，否则target保持不变。
+ * 无论condition是什么，都会访问和写入所有的字节。
+ * 
+ * @param condition 复制条件
+ * @param target 目标字节数组
+ * @param source 源字节数组
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function conditionalCopy(condition: boolean, target: Uint8Array, source: Uint8Array): void {
+	if (target.byteLength !== source.byteLength) {
+		throw new TypeError("Length mismatch");
+	}
+	const mask = conditionMask(condition);
+	for (let i = 0; i < target.byteLength; i++) {
+		target[i] ^= mask & (target[i] ^ source[i]);
+	}
+}
+
+/**
+ * 以常量时间根据条件交换两个字节数组的内容
+ * 
+ * condition为true时交换a和b的内容，否则两者保持不变。
+ * 这在椭圆曲线的蒙哥马利阶梯(Montgomery ladder)等算法中很常用。
+ * 
+ * @param condition 交换条件
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function conditionalSwap(condition: boolean, a: Uint8Array, b: Uint8Array): void {
+	if (a.byteLength !== b.byteLength) {
+		throw new TypeError("Length mismatch");
+	}
+	const mask = conditionMask(condition);
+	for (let i = 0; i < a.byteLength; i++) {
+		const t = mask & (a[i] ^ b[i]);
+		a[i] ^= t;
+		b[i] ^= t;
+	}
+}
+
+/**
+ * 把布尔条件转换为字节掩码：true为0xff(所有位为1)，false为0x00
+ * 
+ * 使用算术而不是分支，避免运行时间依赖于条件。
+ * 
+ * @param condition 条件
+ * @returns 0xff或0x00
+ */
+function conditionMask(condition: boolean): number {
+	return -Number(condition) & 0xff;
+}
+
+/**
+ * 对两个字节数组逐字节进行异或(XOR)，返回新的字节数组
+ * 
+ * 例如：xorBytes([0x0f, 0xf0], [0xff, 0xff]) 返回 [0xf0, 0x0f]
+ * 
+ * 应用场景：一次性密码本、CTR模式的密钥流、HMAC的ipad/opad等。
+ * 
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns a ^ b
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.byteLength);
+	xorBytesInto(result, a, b);
+	return result;
+}
+
+/**
+ * 对两个字节数组逐字节进行异或(XOR)，并把结果写入target
+ * 
+ * target可以是a或b本身，这样就是原地修改，例如 xorBytesInto(data, data, keystream)。
+ * target不能与a或b部分重叠。
+ * 
+ * @param target 目标字节数组
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @throws 如果三个数组的长度不同，抛出TypeError
+ */
+export function xorBytesInto(target: Uint8Array, a: Uint8Array, b: Uint8Array): void {
+	checkBitwiseLength(target, a, b);
+	let i = 0;
+	const words = bitwiseWords(target, a, b);
+	if (words !== null) {
+		const [t, x, y] = words;
+		for (let j = 0; j < t.length; j++) {
+			t[j] = x[j] ^ y[j];
+		}
+		i = t.length * 4;
+	}
+	for (; i < target.byteLength; i++) {
+		target[i] = a[i] ^ b[i];
+	}
+}
+
+/**
+ * 对两个字节数组逐字节进行按位与(AND)，返回新的字节数组
+ * 
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns a & b
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function andBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.byteLength);
+	andBytesInto(result, a, b);
+	return result;
+}
+
+/**
+ * 对两个字节数组逐字节进行按位与(AND)，并把结果写入target
+ * 
+ * target可以是a或b本身，但不能与它们部分重叠。
+ * 
+ * @param target 目标字节数组
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @throws 如果三个数组的长度不同，抛出TypeError
+ */
+export function andBytesInto(target: Uint8Array, a: Uint8Array, b: Uint8Array): void {
+	checkBitwiseLength(target, a, b);
+	let i = 0;
+	const words = bitwiseWords(target, a, b);
+	if (words !== null) {
+		const [t, x, y] = words;
+		for (let j = 0; j < t.length; j++) {
+			t[j] = x[j] & y[j];
+		}
+		i = t.length * 4;
+	}
+	for (; i < target.byteLength; i++) {
+		target[i] = a[i] & b[i];
+	}
+}
+
+/**
+ * 对两个字节数组逐字节进行按位或(OR)，返回新的字节数组
+ * 
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns a | b
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function orBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.byteLength);
+	orBytesInto(result, a, b);
+	return result;
+}
+
+/**
+ * 对两个字节数组逐字节进行按位或(OR)，并把结果写入target
+ * 
+ * target可以是a或b本身，但不能与它们部分重叠。
+ * 
+ * @param target 目标字节数组
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @throws 如果三个数组的长度不同，抛出TypeError
+ */
+export function orBytesInto(target: Uint8Array, a: Uint8Array, b: Uint8Array): void {
+	checkBitwiseLength(target, a, b);
+	let i = 0;
+	const words = bitwiseWords(target, a, b);
+	if (words !== null) {
+		const [t, x, y] = words;
+		for (let j = 0; j < t.length; j++) {
+			t[j] = x[j] | y[j];
+		}
+		i = t.length * 4;
+	}
+	for (; i < target.byteLength; i++) {
+		target[i] = a[i] | b[i];
+	}
+}
+
+/**
+ * 对字节数组逐字节进行按位取反(NOT)，返回新的字节数组
+ * 
+ * @param a 字节数组
+ * @returns ~a
+ */
+export function notBytes(a: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.byteLength);
+	notBytesInto(result, a);
+	return result;
+}
+
+/**
+ * 对字节数组逐字节进行按位取反(NOT)，并把结果写入target
+ * 
+ * target可以是a本身，但不能与它部分重叠。
+ * 
+ * @param target 目标字节数组
+ * @param a 字节数组
+ * @throws 如果两个数组的长度不同，抛出TypeError
+ */
+export function notBytesInto(target: Uint8Array, a: Uint8Array): void {
+	checkBitwiseLength(target, a, a);
+	let i = 0;
+	const words = bitwiseWords(target, a, a);
+	if (words !== null) {
+		const [t, x] = words;
+		for (let j = 0; j < t.length; j++) {
+			t[j] = ~x[j];
+		}
+		i = t.length * 4;
+	}
+	for (; i < target.byteLength; i++) {
+		target[i] = ~a[i];
+	}
+}
+
+/**
+ * 检查按位运算的目标数组和输入数组的长度是否相同
+ * 
+ * @param target 目标字节数组
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @throws 如果长度不同，抛出TypeError
+ */
+function checkBitwiseLength(target: Uint8Array, a: Uint8Array, b: Uint8Array): void {
+	if (a.byteLength !== b.byteLength || target.byteLength !== a.byteLength) {
+		throw new TypeError("Length mismatch");
+	}
+}
+
+/**
+ * 为按位运算创建覆盖数组开头部分的Uint32Array视图，以便每次处理4个字节
+ * 
+ * 按位运算不关心字节序，所以可以直接使用平台的字节序。
+ * Uint32Array要求起始位置是4的倍数，所以只有三个数组的byteOffset都对齐时才使用，
+ * 剩下不足4个字节的部分由调用者逐字节处理。
+ * 数组很短时创建视图的开销比逐字节处理更大，这时也返回null。
+ * 
+ * @param target 目标字节数组
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns [target, a, b]的Uint32Array视图，不能使用时返回null
+ */
+function bitwiseWords(
+	target: Uint8Array,
+	a: Uint8Array,
+	b: Uint8Array
+): [Uint32Array, Uint32Array, Uint32Array] | null {
+	if (target.byteLength < 16 || (target.byteOffset | a.byteOffset | b.byteOffset) % 4 !== 0) {
+		return null;
+	}
+	const length = target.byteLength >>> 2;
+	return [
+		new Uint32Array(target.buffer, target.byteOffset, length),
+		new Uint32Array(a.buffer, a.byteOffset, length),
+		new Uint32Array(b.buffer, b.byteOffset, length)
+	];
+}
+
+/**
+ * 按字典序比较两个字节数组
+ * 
+ * 逐字节比较，第一个不同的字节决定结果；如果较短的数组是较长数组的前缀，则较短的数组更小。
+ * 返回值的约定与Array.prototype.sort()的比较函数相同，所以可以直接传给sort()：
+ * 
+ * keys.sort(compareBytesOrder);
+ * 
+ * 应用场景：对键排序、构建确定性的CBOR/DER编码(例如DER中的SET OF要求成员按顺序排列)等。
+ * 
+ * 注意：这个函数不是常量时间的，比较秘密值请使用compareBytesConstantTime()。
+ * 
+ * @param a 第一个字节数组
+ * @param b 第二个字节数组
+ * @returns a小于b时返回-1，相等时返回0，a大于b时返回1
+ */
+export function compareBytesOrder(a: Uint8Array, b: Uint8Array): -1 | 0 | 1 {
+	const length = Math.min(a.byteLength, b.byteLength);
+	for (let i = 0; i < length; i++) {
+		if (a[i] !== b[i]) {
+			return a[i] < b[i] ? -1 : 1;
+		}
+	}
+	if (a.byteLength === b.byteLength) {
+		return 0;
+	}
+	return a.byteLength < b.byteLength ? -1 : 1;
+}
+
+/**
+ * 按字典序对字节数组的列表进行排序
+ * 
+ * 与Array.prototype.sort()一样，这个函数会直接修改传入的列表，并返回同一个列表。
+ * 
+ * @param values 字节数组的列表
+ * @returns 排序后的列表(与传入的是同一个对象)
+ */
+export function sortBytes(values: Uint8Array[]): Uint8Array[] {
+	return values.sort(compareBytesOrder);
+}
+
+/**
+ * 在已按字典序排序的字节数组列表中进行二分查找
+ * 
+ * 每次比较列表中间的元素，根据比较结果把查找范围缩小一半，
+ * 所以在n个元素中查找只需要大约log2(n)次比较。
+ * 
+ * 如果没有找到，返回值为 -(插入位置 + 1)，其中插入位置是为了保持列表有序而应该插入value的位置。
+ * 这样返回值总是负数，并且可以通过 -(result + 1) 还原出插入位置。
+ * 
+ * 例如：在[[1], [3]]中查找[2]，插入位置为1，返回-2
+ * 
+ * @param sorted 已排序的字节数组列表
+ * @param value 要查找的字节数组
+ * @returns 找到时返回索引，否则返回 -(插入位置 + 1)
+ */
+export function binarySearchBytes(sorted: Uint8Array[], value: Uint8Array): number {
+	let low = 0;
+	let high = sorted.length - 1;
+	while (low <= high) {
+		// >>> 1 相当于除以2并向下取整
+		const middle = (low + high) >>> 1;
+		const comparison = compareBytesOrder(sorted[middle], value);
+		if (comparison === 0) {
+			return middle;
+		}
+		if (comparison < 0) {
+			low = middle + 1;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return -(low + 1);
+}
+
+/**
+ * 在字节数组中查找子序列第一次出现的位置
+ * 
+ * 使用KMP(Knuth-Morris-Pratt)算法：先根据pattern计算一个"部分匹配表"，
+ * 匹配失败时根据这个表跳过不可能匹配的位置，而不是从下一个字节重新开始比较。
+ * 这样data中的每个字节最多只会被比较常数次，总时间为O(n + m)，而不是朴素算法的O(n·m)。
+ * 
+ * 例如：在[0x0d, 0x0a, 0x41, 0x0d, 0x0a]中查找CRLF [0x0d, 0x0a]，从位置1开始查找时返回3
+ * 
+ * @param data 要搜索的字节数组
+ * @param pattern 要查找的子序列
+ * @param fromIndex 开始查找的位置(默认为0)
+ * @returns 第一次出现的位置，没有找到时返回-1
+ */
+export function indexOfBytes(data: Uint8Array, pattern: Uint8Array, fromIndex = 0): number {
+	fromIndex = Math.max(0, fromIndex);
+	if (pattern.byteLength === 0) {
+		return Math.min(fromIndex, data.byteLength);
+	}
+	if (pattern.byteLength === 1) {
+		// 单个字节直接使用内置的indexOf()
+		return data.indexOf(pattern[0], fromIndex);
+	}
+	return searchForward(data, pattern, prefixTable(pattern), fromIndex);
+}
+
+/**
+ * 在字节数组中查找子序列最后一次出现的位置
+ * 
+ * 与indexOfBytes()相同，但是从后往前查找(对反转后的pattern使用KMP算法)。
+ * 
+ * @param data 要搜索的字节数组
+ * @param pattern 要查找的子序列
+ * @param fromIndex 匹配的起始位置不会超过这个位置(默认为最后一个可能的位置)
+ * @returns 最后一次出现的位置，没有找到时返回-1
+ */
+export function lastIndexOfBytes(
+	data: Uint8Array,
+	pattern: Uint8Array,
+	fromIndex = data.byteLength - pattern.byteLength
+): number {
+	fromIndex = Math.min(fromIndex, data.byteLength - pattern.byteLength);
+	if (fromIndex < 0) {
+		return -1;
+	}
+	if (pattern.byteLength === 0) {
+		return fromIndex;
+	}
+	if (pattern.byteLength === 1) {
+		return data.lastIndexOf(pattern[0], fromIndex);
+	}
+	const reversed = pattern.slice().reverse();
+	const table = prefixTable(reversed);
+	let matched = 0;
+	// 从匹配可能结束的最后一个位置开始，从后往前比较
+	for (let i = fromIndex + pattern.byteLength - 1; i >= 0; i--) {
+		while (matched > 0 && data[i] !== reversed[matched]) {
+			matched = table[matched - 1];
+		}
+		if (data[i] === reversed[matched]) {
+			matched++;
+		}
+		if (matched === pattern.byteLength) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * 检查字节数组是否以指定的前缀开头
+ * 
+ * 应用场景：检查文件的"魔数"(magic number)，例如PNG文件以[0x89, 0x50, 0x4e, 0x47]开头。
+ * 
+ * @param data 字节数组
+ * @param prefix 前缀
+ * @returns 如果data以prefix开头返回true，否则返回false
+ */
+export function startsWithBytes(data: Uint8Array, prefix: Uint8Array): boolean {
+	if (data.byteLength < prefix.byteLength) {
+		return false;
+	}
+	for (let i = 0; i < prefix.byteLength; i++) {
+		if (data[i] !== prefix[i]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * 检查字节数组是否以指定的后缀结尾
+ * 
+ * @param data 字节数组
+ * @param suffix 后缀
+ * @returns 如果data以suffix结尾返回true，否则返回false
+ */
+export function endsWithBytes(data: Uint8Array, suffix: Uint8Array): boolean {
+	if (data.byteLength < suffix.byteLength) {
+		return false;
+	}
+	const offset = data.byteLength - suffix.byteLength;
+	for (let i = 0; i < suffix.byteLength; i++) {
+		if (data[offset + i] !== suffix[i]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * 检查字节数组中是否包含指定的子序列
+ * 
+ * @param data 要搜索的字节数组
+ * @param pattern 要查找的子序列
+ * @returns 如果包含返回true，否则返回false
+ */
+export function includesBytes(data: Uint8Array, pattern: Uint8Array): boolean {
+	return indexOfBytes(data, pattern) !== -1;
+}
+
+/**
+ * 使用分隔符把字节数组拆分成多个部分
+ * 
+ * 返回的每个部分都是原数组的视图(subarray)，不会复制数据。
+ * 与String.prototype.split()一样，相邻的分隔符之间、以及开头或结尾的分隔符会产生空的部分。
+ * 
+ * 例如：用[0x2c]拆分[0x61, 0x2c, 0x2c, 0x62]，结果为[[0x61], [], [0x62]]
+ * 
+ * @param data 要拆分的字节数组
+ * @param separator 分隔符
+ * @returns 拆分后的各个部分
+ * @throws 如果分隔符为空，抛出TypeError
+ */
+export function splitBytes(data: Uint8Array, separator: Uint8Array): Uint8Array[] {
+	if (separator.byteLength === 0) {
+		throw new TypeError("Empty separator");
+	}
+	// 部分匹配表只需要计算一次
+	const table = prefixTable(separator);
+	const parts: Uint8Array[] = [];
+	let start = 0;
+	let index = searchForward(data, separator, table, start);
+	while (index !== -1) {
+		parts.push(data.subarray(start, index));
+		start = index + separator.byteLength;
+		index = searchForward(data, separator, table, start);
+	}
+	parts.push(data.subarray(start));
+	return parts;
+}
+
+/**
+ * 计算KMP算法的部分匹配表
+ * 
+ * table[i]是pattern[0..i]中"既是前缀又是后缀"的最长真子串的长度。
+ * 例如pattern为[1, 2, 1, 2, 3]时，table为[0, 0, 1, 2, 0]。
+ * 
+ * @param pattern 要查找的子序列
+ * @returns 部分匹配表
+ */
+function prefixTable(pattern: Uint8Array): Int32Array {
+	const table = new Int32Array(pattern.byteLength);
+	let matched = 0;
+	for (let i = 1; i < pattern.byteLength; i++) {
+		while (matched > 0 && pattern[i] !== pattern[matched]) {
+			matched = table[matched - 1];
+		}
+		if (pattern[i] === pattern[matched]) {
+			matched++;
+		}
+		table[i] = matched;
+	}
+	return table;
+}
+
+/**
+ * 使用KMP算法从前往后查找子序列
+ * 
+ * @param data 要搜索的字节数组
+ * @param pattern 要查找的子序列(不为空)
+ * @param table pattern的部分匹配表
+ * @param fromIndex 开始查找的位置
+ * @returns 第一次出现的位置，没有找到时返回-1
+ */
+function searchForward(
+	data: Uint8Array,
+	pattern: Uint8Array,
+	table: Int32Array,
+	fromIndex: number
+): number {
+	let matched = 0;
+	for (let i = fromIndex; i < data.byteLength; i++) {
+		// 匹配失败时，根据部分匹配表回退，而不是回到data中的前面位置
+		while (matched > 0 && data[i] !== pattern[matched]) {
+			matched = table[matched - 1];
+		}
+		if (data[i] === pattern[matched]) {
+			matched++;
+		}
+		if (matched === pattern.byteLength) {
+			return i - matched + 1;
+		}
+	}
+	return -1;
+}
+
+/**
+ * 连接多个字节数组成为一个新的字节数组
+ * 
+ * 这个函数会创建一个新的字节数组，按顺序包含所有参数的字节。
+ * 可以传入任意数量的字节数组，也可以传入一个包含字节数组的可迭代对象(例如数组或生成器)。
+ * 
+ * 无论有多少个部分，都只会分配一次结果数组：先计算总长度，再依次复制每个部分。
+ * 如果用两两连接的方式拼接N个部分，则需要分配N-1个中间数组。
+ * 
+ * 例如：
+ * 如果a = [1, 2, 3]，b = [4, 5]，c = [6]
+ * 则 concatenateBytes(a, b, c) 和 concatenateBytes([a, b, c]) 的结果都为 [1, 2, 3, 4, 5, 6]
+ * 
+ * 应用场景：合并消息头和消息体、拼接多段数据等。
+ * 
+ * @param parts 要连接的字节数组
+ * @returns 连接后的新字节数组
+ */
+export function concatenateBytes(...parts: Uint8Array[]): Uint8Array;
+export function concatenateBytes(parts: Iterable<Uint8Array>): Uint8Array;
+export function concatenateBytes(...args: Uint8Array[] | [Iterable<Uint8Array>]): Uint8Array {
+	const parts = bytesParts(args);
+	let length = 0;
+	for (const part of parts) {
+		length += part.byteLength;
+	}
+	const result = new Uint8Array(length);
+	copyParts(result, 0, parts);
+	return result;
+}
+
+/**
+ * 把多个字节数组依次写入到目标数组的指定位置
+ * 
+ * 与concatenateBytes()不同，这个函数不会分配新的数组，适合需要避免内存分配的高频代码。
+ * 返回值是写入结束的位置，可以直接作为下一次写入的偏移量。
+ * 
+ * 例如：
+ * const end = concatenateBytesInto(target, 0, header, body);
+ * concatenateBytesInto(target, end, mac);
+ * 
+ * @param target 目标字节数组
+ * @param offset 开始写入的位置
+ * @param parts 要写入的字节数组
+ * @returns 写入结束的位置(offset加上所有部分的总长度)
+ * @throws 如果偏移位置不是非负整数，或者空间不足，抛出TypeError
+ */
+export function concatenateBytesInto(
+	target: Uint8Array,
+	offset: number,
+	...parts: Uint8Array[]
+): number {
+	let length = 0;
+	for (const part of parts) {
+		length += part.byteLength;
 	}
-	for (let i = 0; i < b.byteLength; i++) {
-		if (a[i] !== b[i]) {
-			return false;
-		}
+	// NaN与任何数比较的结果都是false，会通过下面的空间检查并写入到位置0，小数则会被截断，所以要先检查是否为整数
+	if (!Number.isInteger(offset) || offset < 0) {
+		throw new TypeError("Invalid offset");
 	}
-	return true;
+	// 与putUint*()方法一样，在写入任何内容之前检查空间
+	if (target.byteLength < offset + length) {
+		throw new TypeError("Not enough space");
+	}
+	return copyParts(target, offset, parts);
 }
 
 /**
- * 连接两个字节数组成为一个新的字节数组
+ * 把字节数组依次复制到目标数组中(调用者需要保证空间足够)
  * 
- * 这个函数会创建一个新的字节数组，其中包含参数a的所有字节，后跟参数b的所有字节。
+ * @param target 目标字节数组
+ * @param offset 开始写入的位置
+ * @param parts 要写入的字节数组
+ * @returns 写入结束的位置
+ */
+function copyParts(target: Uint8Array, offset: number, parts: Uint8Array[]): number {
+	for (const part of parts) {
+		target.set(part, offset);
+		offset += part.byteLength;
+	}
+	return offset;
+}
+
+/**
+ * 把concatenateBytes()的参数统一转换为字节数组的列表
  * 
- * 例如：
- * 如果a = [1, 2, 3]，b = [4, 5]
- * 则结果为 [1, 2, 3, 4, 5]
+ * 只有一个参数并且它不是Uint8Array时，把它当作可迭代对象展开。
+ * (Uint8Array本身也是可迭代的，但迭代出的是数字而不是字节数组)
  * 
- * 应用场景：合并消息头和消息体、拼接多段数据等。
+ * @param args concatenateBytes()的参数
+ * @returns 字节数组的列表
+ */
+function bytesParts(args: Uint8Array[] | [Iterable<Uint8Array>]): Uint8Array[] {
+	if (args.length === 1 && !(args[0] instanceof Uint8Array)) {
+		return Array.from(args[0]);
+	}
+	return args as Uint8Array[];
+}
+
+/**
+ * 可以追加字节的写入目标
  * 
- * @param a 第一个字节数组
- * @param b 第二个字节数组
- * @returns 连接后的新字节数组
+ * 本库中追加数据的函数和类(BinaryWriter、BitWriter、writeVarint()、writeVector()、writeCBOR()等)
+ * 只依赖这个接口，所以DynamicBuffer和SegmentedBuffer可以互相替换。
  */
-export function concatenateBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
-	const result = new Uint8Array(a.byteLength + b.byteLength);
-	result.set(a);
-	result.set(b, a.byteLength);
-	return result;
+export interface WriteTarget {
+	/**
+	 * 已写入的字节数
+	 */
+	readonly length: number;
+
+	/**
+	 * 在末尾追加一组字节
+	 * 
+	 * @param bytes 要写入的字节数组
+	 */
+	write(bytes: Uint8Array): void;
+
+	/**
+	 * 在末尾追加单个字节
+	 * 
+	 * @param byte 要写入的字节值（0-255之间的整数）
+	 */
+	writeByte(byte: number): void;
+}
+
+/**
+ * DynamicBuffer的选项
+ */
+export interface DynamicBufferOptions {
+	/**
+	 * 是否使用安全模式，默认为false
+	 * 
+	 * 安全模式下，扩容或缩小容量时会用0覆盖旧的数组，clear()和truncate()会用0覆盖被丢弃的内容。
+	 * 注意：通过view()取得的视图指向旧的数组，扩容之后读取到的都是0。
+	 */
+	secure?: boolean;
+
+	/**
+	 * 最大容量(字节数)，默认没有限制
+	 * 
+	 * 扩容时容量翻倍的结果会被限制在最大容量以内，所以缓冲区总是可以写入正好maxCapacity个字节。
+	 * 写入的数据超出最大容量时抛出BufferCapacityError。
+	 * 在累积不可信的输入(例如请求体、解码的帧)时，可以防止错误的长度字段导致分配大量内存。
+	 */
+	maxCapacity?: number;
+}
+
+/**
+ * 超出DynamicBuffer最大容量的错误
+ * 
+ * 继承自TypeError，与本库中其他的错误保持一致。
+ */
+export class BufferCapacityError extends TypeError {
+	/**
+	 * 需要的容量(字节数)
+	 */
+	public requestedCapacity: number;
+
+	/**
+	 * 最大容量(字节数)
+	 */
+	public maxCapacity: number;
+
+	/**
+	 * @param requestedCapacity 需要的容量
+	 * @param maxCapacity 最大容量
+	 */
+	constructor(requestedCapacity: number, maxCapacity: number) {
+		super(`Requested capacity ${requestedCapacity} exceeds maximum capacity ${maxCapacity}`);
+		this.name = "BufferCapacityError";
+		this.requestedCapacity = requestedCapacity;
+		this.maxCapacity = maxCapacity;
+	}
 }
 
 /**
@@ -71,31 +860,83 @@ export function concatenateBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
  * 
  * 应用场景：当你不知道最终需要多少字节空间，或者需要逐步构建二进制数据时特别有用，
  * 比如构建网络协议消息、序列化对象、或者动态生成二进制文件格式等。
+ * 
+ * 扩容后旧的数组会留给垃圾回收器，在被回收之前，其中的数据仍然留在内存中。
+ * 构建密钥、明文等秘密数据时，可以使用安全模式(secure选项)，在丢弃数据时先用0覆盖。
+ * 累积不可信的输入时，可以用maxCapacity选项限制最大容量。
  */
-export class DynamicBuffer {
+export class DynamicBuffer implements WriteTarget {
 	/**
-	 * 内部存储数据的Uint8Array
+	 * 内部存储数据的Uint8Array，它的长度就是缓冲区的容量
 	 */
 	private value: Uint8Array;
-	
+
 	/**
-	 * 当前缓冲区的总容量（可以存储的最大字节数）
+	 * 当前已使用的字节数
 	 */
-	public capacity: number;
-	
+	private size = 0;
+
 	/**
-	 * 当前已使用的字节数
+	 * 是否为安全模式
+	 */
+	private secure: boolean;
+
+	/**
+	 * 最大容量，没有限制时为Infinity
 	 */
-	public length = 0;
+	private limit: number;
 
 	/**
 	 * 创建一个新的动态缓冲区
 	 * 
-	 * @param capacity 初始容量（字节数）
+	 * 传入数字时创建指定初始容量的空缓冲区。
+	 * 传入Uint8Array时直接使用这个数组作为缓冲区的内容，不会复制：
+	 * 缓冲区的长度和容量都等于数组的长度，在下一次扩容之前，修改这个数组也会修改缓冲区的内容。
+	 * 安全模式下，这个数组在扩容时也会被清零。
+	 * 
+	 * @param init 初始容量（字节数），或者要直接使用的字节数组
+	 * @param options 选项
+	 * @throws 如果最大容量无效，抛出TypeError；如果初始容量超出最大容量，抛出BufferCapacityError
+	 */
+	constructor(capacity: number, options?: DynamicBufferOptions);
+	constructor(bytes: Uint8Array, options?: DynamicBufferOptions);
+	constructor(init: number | Uint8Array, options?: DynamicBufferOptions) {
+		this.secure = options?.secure ?? false;
+		this.limit = options?.maxCapacity ?? Infinity;
+		if (this.limit !== Infinity && (!Number.isInteger(this.limit) || this.limit < 0)) {
+			throw new TypeError("Invalid maximum capacity");
+		}
+		const capacity = typeof init === "number" ? init : init.byteLength;
+		if (capacity > this.limit) {
+			throw new BufferCapacityError(capacity, this.limit);
+		}
+		if (typeof init === "number") {
+			this.value = new Uint8Array(init);
+		} else {
+			this.value = init;
+			this.size = init.byteLength;
+		}
+	}
+
+	/**
+	 * 当前缓冲区的总容量（可以存储的最大字节数）
+	 */
+	public get capacity(): number {
+		return this.value.byteLength;
+	}
+
+	/**
+	 * 当前已使用的字节数
 	 */
-	constructor(capacity: number) {
-		this.value = new Uint8Array(capacity);
-		this.capacity = capacity;
+	public get length(): number {
+		return this.size;
+	}
+
+	/**
+	 * 最大容量，没有限制时为Infinity
+	 */
+	public get maxCapacity(): number {
+		return this.limit;
 	}
 
 	/**
@@ -105,25 +946,14 @@ export class DynamicBuffer {
 	 * 扩容策略是容量翻倍，这样可以减少频繁扩容带来的性能开销。
 	 * 
 	 * @param bytes 要写入的字节数组
+	 * @throws 如果写入后超出最大容量，抛出BufferCapacityError，并且不写入任何内容
 	 */
 	public write(bytes: Uint8Array): void {
-		if (this.length + bytes.byteLength <= this.capacity) {
-			this.value.set(bytes, this.length);
-			this.length += bytes.byteLength;
-			return;
-		}
-		while (this.length + bytes.byteLength > this.capacity) {
-			if (this.capacity === 0) {
-				this.capacity = 1;
-			} else {
-				this.capacity = this.capacity * 2;
-			}
+		if (this.size + bytes.byteLength > this.capacity) {
+			this.grow(this.size + bytes.byteLength);
 		}
-		const newValue = new Uint8Array(this.capacity);
-		newValue.set(this.value.subarray(0, this.length));
-		newValue.set(bytes, this.length);
-		this.value = newValue;
-		this.length += bytes.byteLength;
+		this.value.set(bytes, this.size);
+		this.size += bytes.byteLength;
 	}
 
 	/**
@@ -133,23 +963,14 @@ export class DynamicBuffer {
 	 * 如果容量不足，同样会自动扩容。
 	 * 
 	 * @param byte 要写入的字节值（0-255之间的整数）
+	 * @throws 如果写入后超出最大容量，抛出BufferCapacityError
 	 */
 	public writeByte(byte: number): void {
-		if (this.length + 1 <= this.capacity) {
-			this.value[this.length] = byte;
-			this.length++;
-			return;
-		}
-		if (this.capacity === 0) {
-			this.capacity = 1;
-		} else {
-			this.capacity = this.capacity * 2;
+		if (this.size + 1 > this.capacity) {
+			this.grow(this.size + 1);
 		}
-		const newValue = new Uint8Array(this.capacity);
-		newValue.set(this.value.subarray(0, this.length));
-		newValue[this.length] = byte;
-		this.value = newValue;
-		this.length++;
+		this.value[this.size] = byte;
+		this.size++;
 	}
 
 	/**
@@ -161,10 +982,10 @@ export class DynamicBuffer {
 	 * @throws 如果目标数组空间不足，会抛出TypeError
 	 */
 	public readInto(target: Uint8Array): void {
-		if (target.byteLength < this.length) {
+		if (target.byteLength < this.size) {
 			throw new TypeError("Not enough space");
 		}
-		target.set(this.value.subarray(0, this.length));
+		target.set(this.value.subarray(0, this.size));
 	}
 
 	/**
@@ -176,7 +997,75 @@ export class DynamicBuffer {
 	 * @returns 包含缓冲区有效内容的新Uint8Array
 	 */
 	public bytes(): Uint8Array {
-		return this.value.slice(0, this.length);
+		return this.value.slice(0, this.size);
+	}
+
+	/**
+	 * 获取缓冲区当前有效内容的视图，不复制数据
+	 * 
+	 * 返回的是内部数组的subarray，适合只需要读取一次结果的场景(例如计算哈希值)。
+	 * 注意：视图只在下一次修改缓冲区之前有效。
+	 * write()等方法扩容后，视图仍然指向旧的数组，不会包含新写入的数据；
+	 * 而clear()或truncate()之后的写入会覆盖视图中的字节。
+	 * 安全模式下，扩容或shrinkToFit()会用0覆盖旧的数组，所以之前取得的视图会变成全0，而不只是过时的数据；
+	 * clear()和truncate()也会把视图中被丢弃的部分清零。
+	 * 如果需要长期保存结果，请使用bytes()。
+	 * 
+	 * @returns 缓冲区有效内容的视图
+	 */
+	public view(): Uint8Array {
+		return this.value.subarray(0, this.size);
+	}
+
+	/**
+	 * 把缓冲区的长度缩短为length个字节，丢弃之后的内容
+	 * 
+	 * 与clear()一样，只是改变长度，不会释放内存。
+	 * 安全模式下会用0覆盖被丢弃的内容。
+	 * 
+	 * @param length 新的长度(0到当前长度)
+	 * @throws 如果长度无效或大于当前长度，抛出TypeError
+	 */
+	public truncate(length: number): void {
+		if (!Number.isInteger(length) || length < 0 || length > this.size) {
+			throw new TypeError("Invalid length");
+		}
+		if (this.secure) {
+			this.value.fill(0, length, this.size);
+		}
+		this.size = length;
+	}
+
+	/**
+	 * 预留空间，保证之后再写入additional个字节时不需要扩容
+	 * 
+	 * 如果知道接下来要写入多少数据，可以先调用这个方法，只分配一次内存。
+	 * 容量不足时扩容到正好能够容纳这些数据，而不是翻倍。
+	 * 
+	 * @param additional 之后要写入的字节数
+	 * @throws 如果字节数无效，抛出TypeError；如果超出最大容量，抛出BufferCapacityError
+	 */
+	public reserve(additional: number): void {
+		if (!Number.isInteger(additional) || additional < 0) {
+			throw new TypeError("Invalid length");
+		}
+		if (this.size + additional > this.limit) {
+			throw new BufferCapacityError(this.size + additional, this.limit);
+		}
+		if (this.size + additional > this.capacity) {
+			this.resize(this.size + additional);
+		}
+	}
+
+	/**
+	 * 把容量缩小到当前的长度，释放多余的内存
+	 * 
+	 * 适合在写入完成后长期保存缓冲区的场景。
+	 */
+	public shrinkToFit(): void {
+		if (this.capacity > this.size) {
+			this.resize(this.size);
+		}
 	}
 
 	/**
@@ -185,8 +1074,272 @@ export class DynamicBuffer {
 	 * 这个方法只是重置length为0，而不是真正地清除数据或释放内存。
 	 * 原来的数据虽然还在内存中，但因为length为0，所以在逻辑上这些数据不再可访问。
 	 * 这样设计可以避免频繁地创建新的Uint8Array，提高性能。
+	 * 
+	 * 安全模式下会先用0覆盖已使用的部分。
+	 */
+	public clear(): void {
+		if (this.secure) {
+			this.value.fill(0, 0, this.size);
+		}
+		this.size = 0;
+	}
+
+	/**
+	 * 用0覆盖整个内部数组并释放它
+	 * 
+	 * 无论是否为安全模式，都会覆盖全部容量(而不只是已使用的部分)，然后把缓冲区重置为容量为0的空缓冲区。
+	 * 之后仍然可以继续写入。
+	 * 注意：之前通过view()获得的视图也会被清零。
+	 */
+	public dispose(): void {
+		this.value.fill(0);
+		this.value = new Uint8Array(0);
+		this.size = 0;
+	}
+
+	/**
+	 * 按翻倍的策略扩容，直到容量不小于required
+	 * 
+	 * 翻倍后的容量不会超过最大容量。
+	 * 
+	 * @param required 需要的最小容量
+	 * @throws 如果required超出最大容量，抛出BufferCapacityError
+	 */
+	private grow(required: number): void {
+		if (required > this.limit) {
+			throw new BufferCapacityError(required, this.limit);
+		}
+		let capacity = this.capacity;
+		while (required > capacity) {
+			if (capacity === 0) {
+				capacity = 1;
+			} else {
+				capacity = Math.min(capacity * 2, this.limit);
+			}
+		}
+		this.resize(capacity);
+	}
+
+	/**
+	 * 把内部数组替换为指定容量的新数组，并复制有效内容
+	 * 
+	 * 安全模式下会用0覆盖旧的数组。
+	 * 
+	 * @param capacity 新的容量(不小于当前长度)
+	 */
+	private resize(capacity: number): void {
+		const newValue = new Uint8Array(capacity);
+		newValue.set(this.value.subarray(0, this.size));
+		if (this.secure) {
+			this.value.fill(0);
+		}
+		this.value = newValue;
+	}
+}
+
+/**
+ * 分段缓冲区类
+ * 
+ * DynamicBuffer把数据保存在一个连续的数组中，每次扩容都要把已有的数据复制到新的数组。
+ * SegmentedBuffer则把写入的数据保存为一组段(segment)，追加数据时不会移动已有的数据，
+ * 只在最后调用bytes()时复制一次。适合累积大量数据的场景，例如拼接大的文件或者逐段发送的网络消息。
+ * 
+ * 分段的方式：
+ * - 不小于段大小的write()会把数据复制为一个独立的段
+ * - 较小的write()和writeByte()写入当前的段，写满后再分配新的段，避免产生大量很小的段
+ * 
+ * 实现了WriteTarget接口，可以代替DynamicBuffer传给BinaryWriter、BitWriter、writeVarint()等。
+ */
+export class SegmentedBuffer implements WriteTarget {
+	/**
+	 * 已经封闭(不会再写入)的段
+	 */
+	private sealed: Uint8Array[] = [];
+
+	/**
+	 * 每个封闭的段的起始位置，用于byteAt()的二分查找
+	 */
+	private offsets: number[] = [];
+
+	/**
+	 * 所有封闭的段的总字节数
+	 */
+	private sealedSize = 0;
+
+	/**
+	 * 当前正在写入的段，它的长度就是当前段的容量
+	 */
+	private current = new Uint8Array(0);
+
+	/**
+	 * 当前段中已写入的字节数
+	 */
+	private currentSize = 0;
+
+	/**
+	 * 新分配的段的大小
+	 */
+	private segmentSize: number;
+
+	/**
+	 * 创建一个新的分段缓冲区
+	 * 
+	 * @param segmentSize 较小的写入共用的段的大小（字节数），默认为4096
+	 * @throws 如果段的大小不是正整数，抛出TypeError
+	 */
+	constructor(segmentSize = 4096) {
+		if (!Number.isInteger(segmentSize) || segmentSize < 1) {
+			throw new TypeError("Invalid segment size");
+		}
+		this.segmentSize = segmentSize;
+	}
+
+	/**
+	 * 当前已写入的字节数
+	 */
+	public get length(): number {
+		return this.sealedSize + this.currentSize;
+	}
+
+	/**
+	 * 写入一组字节到缓冲区
+	 * 
+	 * 数据会被复制，之后修改传入的数组不会影响缓冲区的内容。
+	 * 
+	 * @param bytes 要写入的字节数组
+	 */
+	public write(bytes: Uint8Array): void {
+		if (bytes.byteLength <= this.current.byteLength - this.currentSize) {
+			this.current.set(bytes, this.currentSize);
+			this.currentSize += bytes.byteLength;
+			return;
+		}
+		this.seal();
+		if (bytes.byteLength >= this.segmentSize) {
+			this.push(bytes.slice());
+			return;
+		}
+		this.current = new Uint8Array(this.segmentSize);
+		this.current.set(bytes);
+		this.currentSize = bytes.byteLength;
+	}
+
+	/**
+	 * 写入单个字节到缓冲区
+	 * 
+	 * @param byte 要写入的字节值（0-255之间的整数）
+	 */
+	public writeByte(byte: number): void {
+		if (this.currentSize === this.current.byteLength) {
+			this.seal();
+			this.current = new Uint8Array(this.segmentSize);
+		}
+		this.current[this.currentSize] = byte;
+		this.currentSize++;
+	}
+
+	/**
+	 * 按顺序遍历所有的段，不复制数据
+	 * 
+	 * 返回的段是内部数组的视图，在clear()之前一直有效，之后的写入不会修改已经返回的段。
+	 * 可以直接把结果传给concatenateBytes()，或者逐段写入流。
+	 * 
+	 * 例如：
+	 * for (const segment of buffer.segments()) {
+	 *     stream.write(segment);
+	 * }
+	 * 
+	 * @returns 按顺序产生每个非空段的迭代器
+	 */
+	public *segments(): IterableIterator<Uint8Array> {
+		yield* this.sealed;
+		if (this.currentSize > 0) {
+			yield this.current.subarray(0, this.currentSize);
+		}
+	}
+
+	/**
+	 * 读取指定位置的字节
+	 * 
+	 * 通过二分查找定位所在的段，时间复杂度为O(log 段数)。
+	 * 
+	 * @param index 字节的位置(0到length-1)
+	 * @returns 字节值
+	 * @throws 如果位置无效或超出范围，抛出TypeError
+	 */
+	public byteAt(index: number): number {
+		if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+			throw new TypeError("Invalid index");
+		}
+		if (index >= this.sealedSize) {
+			return this.current[index - this.sealedSize];
+		}
+		// 查找最后一个起始位置不大于index的段
+		let low = 0;
+		let high = this.offsets.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >>> 1;
+			if (this.offsets[mid] <= index) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return this.sealed[low][index - this.offsets[low]];
+	}
+
+	/**
+	 * 把所有的段合并为一个连续的字节数组
+	 * 
+	 * 返回一个新的Uint8Array，这是唯一一次把全部数据复制到连续内存中的操作。
+	 * 
+	 * @returns 包含缓冲区全部内容的新Uint8Array
+	 */
+	public bytes(): Uint8Array {
+		const result = new Uint8Array(this.length);
+		let offset = 0;
+		for (const segment of this.segments()) {
+			result.set(segment, offset);
+			offset += segment.byteLength;
+		}
+		return result;
+	}
+
+	/**
+	 * 清空缓冲区
+	 * 
+	 * 与DynamicBuffer.clear()不同，这个方法会丢弃所有的段，而不是重复使用它们，
+	 * 所以之前通过segments()获得的段不会被之后的写入覆盖。
 	 */
 	public clear(): void {
-		this.length = 0;
+		this.sealed = [];
+		this.offsets = [];
+		this.sealedSize = 0;
+		this.current = new Uint8Array(0);
+		this.currentSize = 0;
+	}
+
+	/**
+	 * 封闭当前段中已写入的部分
+	 * 
+	 * 当前段剩余的空间会继续作为新的当前段使用。
+	 */
+	private seal(): void {
+		if (this.currentSize > 0) {
+			this.push(this.current.subarray(0, this.currentSize));
+			this.current = this.current.subarray(this.currentSize);
+			this.currentSize = 0;
+		}
+	}
+
+	/**
+	 * 把一个段添加到封闭的段的末尾
+	 * 
+	 * @param segment 要添加的段
+	 */
+	private push(segment: Uint8Array): void {
+		this.offsets.push(this.sealedSize);
+		this.sealed.push(segment);
+		this.sealedSize += segment.byteLength;
 	}
 }
@@ -0,0 +1,318 @@
+/**
+ * cbor.test.ts - cbor.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/cbor.ts` 中CBOR编码和解码的单元测试。
+ * 大部分测试数据来自RFC 8949的附录A，用十六进制字符串表示编码后的字节。
+ * 测试的目的是确保各种主类型、标签、浮点数和不定长度的数据项都能正确编码和解码，
+ * 并且确定性模式能拒绝不是确定性编码的输入。
+ */
+import { describe, expect, test } from "vitest";
+import {
+	CBORError,
+	CBORSimpleValue,
+	CBORTag,
+	decodeCBOR,
+	encodeCBOR,
+	writeCBOR,
+	writeCBORBreak,
+	writeCBORIndefinite
+} from "./cbor.js";
+import { DynamicBuffer, SegmentedBuffer } from "./bytes.js";
+
+import type { CBORValue } from "./cbor.js";
+
+// 把十六进制字符串转换为字节数组
+function hex(s: string): Uint8Array {
+	return new Uint8Array(s.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+}
+
+describe("CBOR编码", () => {
+	// RFC 8949 附录A中的示例
+	test("encodeCBOR() 整数", () => {
+		const cases: [CBORValue, string][] = [
+			[0, "00"],
+			[23, "17"],
+			[24, "1818"],
+			[100, "1864"],
+			[1000, "1903e8"],
+			[1000000, "1a000f4240"],
+			[1000000000000, "1b000000e8d4a51000"],
+			[18446744073709551615n, "1bffffffffffffffff"],
+			[18446744073709551616n, "c249010000000000000000"],
+			[-18446744073709551616n, "3bffffffffffffffff"],
+			[-18446744073709551617n, "c349010000000000000000"],
+			[-1, "20"],
+			[-10, "29"],
+			[-100, "3863"],
+			[-1000, "3903e7"]
+		];
+		for (const [value, encoded] of cases) {
+			expect(encodeCBOR(value)).toStrictEqual(hex(encoded));
+		}
+	});
+
+	// 测试超出安全整数范围的 number：在64位范围内时按整数编码，否则按浮点数编码
+	test("encodeCBOR() 超出安全整数范围的 number", () => {
+		const cases: [number, string][] = [
+			[2 ** 53, "1b0020000000000000"],
+			[2 ** 60, "1b1000000000000000"],
+			[2 ** 64 - 2048, "1bfffffffffffff800"],
+			[-(2 ** 53), "3b001fffffffffffff"],
+			[-(2 ** 64), "3bffffffffffffffff"],
+			[2 ** 64, "fa5f800000"],
+			[-(2 ** 64) - 4096, "fbc3f0000000000001"]
+		];
+		for (const [value, encoded] of cases) {
+			expect(encodeCBOR(value)).toStrictEqual(hex(encoded));
+		}
+		// 解码时返回 bigint
+		expect(decodeCBOR(encodeCBOR(2 ** 60))[0]).toBe(2n ** 60n);
+	});
+
+	test("encodeCBOR() 浮点数", () => {
+		const cases: [number, string][] = [
+			[-0, "f98000"],
+			[1.5, "f93e00"],
+			[6.5, "f94680"],
+			[100000.5, "fa47c35040"],
+			[3.4028234663852886e38, "fa7f7fffff"],
+			[1.0e300, "fb7e37e43c8800759c"],
+			[5.960464477539063e-8, "f90001"],
+			[0.00006103515625, "f90400"],
+			[-4.1, "fbc010666666666666"],
+			[Infinity, "f97c00"],
+			[NaN, "f97e00"],
+			[-Infinity, "f9fc00"]
+		];
+		for (const [value, encoded] of cases) {
+			expect(encodeCBOR(value)).toStrictEqual(hex(encoded));
+		}
+	});
+
+	test("encodeCBOR() 简单值和标签", () => {
+		expect(encodeCBOR(false)).toStrictEqual(hex("f4"));
+		expect(encodeCBOR(true)).toStrictEqual(hex("f5"));
+		expect(encodeCBOR(null)).toStrictEqual(hex("f6"));
+		expect(encodeCBOR(undefined)).toStrictEqual(hex("f7"));
+		expect(encodeCBOR(new CBORSimpleValue(16))).toStrictEqual(hex("f0"));
+		expect(encodeCBOR(new CBORSimpleValue(255))).toStrictEqual(hex("f8ff"));
+		expect(() => new CBORSimpleValue(24)).toThrowError("Invalid simple value");
+		expect(encodeCBOR(new CBORTag(1, 1363896240))).toStrictEqual(hex("c11a514b67b0"));
+		expect(encodeCBOR(new CBORTag(23, hex("01020304")))).toStrictEqual(hex("d74401020304"));
+		expect(() => new CBORTag(-1, null)).toThrowError("Invalid tag");
+	});
+
+	test("encodeCBOR() 字符串、数组和映射", () => {
+		expect(encodeCBOR(new Uint8Array())).toStrictEqual(hex("40"));
+		expect(encodeCBOR(hex("01020304"))).toStrictEqual(hex("4401020304"));
+		expect(encodeCBOR("")).toStrictEqual(hex("60"));
+		expect(encodeCBOR("IETF")).toStrictEqual(hex("6449455446"));
+		expect(encodeCBOR("ü")).toStrictEqual(hex("62c3bc"));
+		expect(encodeCBOR("𐅑")).toStrictEqual(hex("64f0908591"));
+		expect(encodeCBOR([])).toStrictEqual(hex("80"));
+		expect(encodeCBOR([1, [2, 3], [4, 5]])).toStrictEqual(hex("8301820203820405"));
+		const long = Array.from({ length: 25 }, (_, i) => i + 1);
+		expect(encodeCBOR(long)).toStrictEqual(
+			hex("98190102030405060708090a0b0c0d0e0f101112131415161718181819")
+		);
+		expect(encodeCBOR(new Map())).toStrictEqual(hex("a0"));
+		expect(
+			encodeCBOR(
+				new Map<CBORValue, CBORValue>([
+					["a", 1],
+					["b", [2, 3]]
+				])
+			)
+		).toStrictEqual(hex("a26161016162820203"));
+	});
+
+	// 确定性编码会按编码后的字节排序映射的键
+	test("encodeCBOR() 确定性编码", () => {
+		const map = new Map<CBORValue, CBORValue>([
+			["b", 2],
+			[-1, 1],
+			[10, 0],
+			["a", 1]
+		]);
+		expect(encodeCBOR(map)).toStrictEqual(hex("a461620220010a00616101"));
+		expect(encodeCBOR(map, { deterministic: true })).toStrictEqual(hex("a40a002001616101616202"));
+		// 编码相同的键
+		const duplicate = new Map<CBORValue, CBORValue>([
+			[1, 0],
+			[1n, 0]
+		]);
+		expect(() => encodeCBOR(duplicate, { deterministic: true })).toThrowError("Duplicate map key");
+	});
+
+	// 测试追加到 DynamicBuffer 和不定长度
+	test("writeCBOR()/writeCBORIndefinite()/writeCBORBreak()", () => {
+		const buffer = new DynamicBuffer(0);
+		writeCBORIndefinite(buffer, "array");
+		writeCBOR(buffer, 1);
+		writeCBORIndefinite(buffer, "bytes");
+		writeCBOR(buffer, hex("0102"));
+		writeCBOR(buffer, hex("030405"));
+		writeCBORBreak(buffer);
+		writeCBORBreak(buffer);
+		expect(buffer.bytes()).toStrictEqual(hex("9f015f42010243030405ffff"));
+	});
+
+	// 测试追加到 SegmentedBuffer
+	test("writeCBOR() SegmentedBuffer", () => {
+		const value: CBORValue = [1, "a", hex("0102030405060708"), new Map([["b", [true, null]]])];
+		const buffer = new SegmentedBuffer(4);
+		writeCBOR(buffer, value);
+		expect(buffer.bytes()).toStrictEqual(encodeCBOR(value));
+	});
+});
+
+describe("CBOR解码", () => {
+	test("decodeCBOR()", () => {
+		const cases: [string, CBORValue][] = [
+			["00", 0],
+			["1a80000000", 0x80000000],
+			["1bffffffffffffffff", 18446744073709551615n],
+			["1b001fffffffffffff", Number.MAX_SAFE_INTEGER],
+			["1b0020000000000000", 2n ** 53n],
+			["3b001ffffffffffffe", -Number.MAX_SAFE_INTEGER],
+			["3b001fffffffffffff", -(2n ** 53n)],
+			["c249010000000000000000", 18446744073709551616n],
+			["c349010000000000000000", -18446744073709551617n],
+			["f93c00", 1],
+			["f98000", -0],
+			["fa47c35040", 100000.5],
+			["fbc010666666666666", -4.1],
+			["f97e00", NaN],
+			["f4", false],
+			["f6", null],
+			["f7", undefined],
+			["f0", new CBORSimpleValue(16)],
+			["f8ff", new CBORSimpleValue(255)],
+			["c074323031332d30332d32315432303a30343a30305a", new CBORTag(0, "2013-03-21T20:04:00Z")],
+			["4401020304", hex("01020304")],
+			["62c3bc", "ü"],
+			["8301820203820405", [1, [2, 3], [4, 5]]],
+			[
+				"a26161016162820203",
+				new Map<CBORValue, CBORValue>([
+					["a", 1],
+					["b", [2, 3]]
+				])
+			]
+		];
+		for (const [encoded, value] of cases) {
+			const data = hex(encoded);
+			expect(decodeCBOR(data)).toStrictEqual([value, data.byteLength]);
+		}
+		// 不会去掉开头的BOM
+		expect(decodeCBOR(hex("63efbbbf"))).toStrictEqual(["﻿", 4]);
+	});
+
+	// 测试不定长度的数据项
+	test("decodeCBOR() 不定长度", () => {
+		expect(decodeCBOR(hex("5f42010243030405ff"))).toStrictEqual([hex("0102030405"), 9]);
+		expect(decodeCBOR(hex("7f657374726561646d696e67ff"))).toStrictEqual(["streaming", 13]);
+		expect(decodeCBOR(hex("9fff"))).toStrictEqual([[], 2]);
+		expect(decodeCBOR(hex("9f018202039f0405ffff"))).toStrictEqual([[1, [2, 3], [4, 5]], 10]);
+		expect(decodeCBOR(hex("bf61610161629f0203ffff"))).toStrictEqual([
+			new Map<CBORValue, CBORValue>([
+				["a", 1],
+				["b", [2, 3]]
+			]),
+			11
+		]);
+		// 字节串的每一段必须是定长的字节串
+		expect(() => decodeCBOR(hex("5f6161ff"))).toThrowError(new CBORError("Invalid chunk"));
+		expect(() => decodeCBOR(hex("5f5f4101ffff"))).toThrowError("Invalid chunk");
+		// 整数不能使用不定长度
+		expect(() => decodeCBOR(hex("1f"))).toThrowError("Invalid additional information");
+		// 缺少值的映射
+		expect(() => decodeCBOR(hex("bf6161ff"))).toThrowError("Unexpected break");
+	});
+
+	// 测试返回数据项结束的位置，后面可以有其他数据
+	test("decodeCBOR() 返回结束的位置", () => {
+		const data = hex("ff" + "a1616101" + "8201" + "02" + "0304");
+		const [map, next] = decodeCBOR(data, 1);
+		expect(map).toStrictEqual(new Map([["a", 1]]));
+		expect(next).toBe(5);
+		expect(decodeCBOR(data, next)).toStrictEqual([[1, 2], 8]);
+		expect(decodeCBOR(data, 8)).toStrictEqual([3, 9]);
+	});
+
+	test("decodeCBOR() 无效的编码", () => {
+		expect(() => decodeCBOR(hex(""))).toThrowError("Insufficient bytes");
+		expect(() => decodeCBOR(hex("1a0000"))).toThrowError("Insufficient bytes");
+		expect(() => decodeCBOR(hex("450102"))).toThrowError("Insufficient bytes");
+		expect(() => decodeCBOR(hex("8201"))).toThrowError("Insufficient bytes");
+		expect(() => decodeCBOR(hex("1c"))).toThrowError("Invalid additional information");
+		expect(() => decodeCBOR(hex("fc"))).toThrowError("Invalid additional information");
+		expect(() => decodeCBOR(hex("ff"))).toThrowError("Unexpected break");
+		expect(() => decodeCBOR(hex("f818"))).toThrowError("Invalid simple value");
+		expect(() => decodeCBOR(hex("62c328"))).toThrowError("Invalid UTF-8");
+		expect(() => decodeCBOR(hex("c26161"))).toThrowError("Invalid bignum");
+		expect(() => decodeCBOR(hex("a201000100"))).toThrowError("Duplicate map key");
+		// 字节串、数组和映射的键按编码后的字节比较
+		expect(() => decodeCBOR(hex("a2410101410102"))).toThrowError("Duplicate map key");
+		expect(() => decodeCBOR(hex("a2810101810102"))).toThrowError("Duplicate map key");
+		expect(() => decodeCBOR(hex("bfa001a002ff"))).toThrowError("Duplicate map key");
+		expect(decodeCBOR(hex("a2410101410202"))[0]).toStrictEqual(
+			new Map([
+				[hex("01"), 1],
+				[hex("02"), 2]
+			])
+		);
+		expect(() => decodeCBOR(hex("5b0020000000000000"))).toThrowError("Length too large");
+	});
+
+	// 测试嵌套超过最大深度时抛出 CBORError，而不是耗尽调用栈
+	test("decodeCBOR() 最大深度", () => {
+		const nested = new Uint8Array(200000).fill(0x81);
+		expect(() => decodeCBOR(nested)).toThrowError(new CBORError("Maximum depth exceeded"));
+		// 不定长度的数组和标签也计入深度
+		expect(() => decodeCBOR(new Uint8Array(200000).fill(0x9f))).toThrowError(CBORError);
+		expect(() => decodeCBOR(new Uint8Array(200000).fill(0xc1))).toThrowError(CBORError);
+
+		// 默认允许64层
+		const deep = new Uint8Array(64).fill(0x81);
+		deep[63] = 0x80;
+		expect(decodeCBOR(deep)[1]).toBe(64);
+		const tooDeep = new Uint8Array(65).fill(0x81);
+		tooDeep[64] = 0x80;
+		expect(() => decodeCBOR(tooDeep)).toThrowError("Maximum depth exceeded");
+
+		const options = { maxDepth: 2 };
+		expect(decodeCBOR(hex("8101"), 0, options)).toStrictEqual([[1], 2]);
+		expect(decodeCBOR(hex("a10180"), 0, options)[1]).toBe(3);
+		expect(() => decodeCBOR(hex("818101"), 0, options)).toThrowError("Maximum depth exceeded");
+		expect(() => decodeCBOR(hex("c1c100"), 0, options)).toThrowError("Maximum depth exceeded");
+		expect(() => decodeCBOR(hex("01"), 0, { maxDepth: 0 })).toThrowError("Invalid maximum depth");
+	});
+
+	// 测试确定性模式拒绝不是确定性编码的输入
+	test("decodeCBOR() 确定性模式", () => {
+		const options = { deterministic: true };
+		expect(decodeCBOR(hex("a40a002001616101616202"), 0, options)[1]).toBe(11);
+		expect(decodeCBOR(hex("c249010000000000000000"), 0, options)[0]).toBe(2n ** 64n);
+		// 非确定性模式下允许的编码
+		const cases: [string, string][] = [
+			["1817", "Non-minimal argument"],
+			["190017", "Non-minimal argument"],
+			["1a0000ffff", "Non-minimal argument"],
+			["1b00000000ffffffff", "Non-minimal argument"],
+			["5801ff", "Non-minimal argument"],
+			["fa3fc00000", "Non-minimal float"],
+			["fb3ff8000000000000", "Non-minimal float"],
+			["f97e01", "Non-minimal float"],
+			["9f01ff", "Indefinite length"],
+			["c24101", "Non-minimal bignum"],
+			["c2490001000000000000000000", "Non-minimal bignum"],
+			["a2616201616101", "Unsorted map keys"],
+			["a2616101616101", "Unsorted map keys"]
+		];
+		for (const [encoded, message] of cases) {
+			expect(() => decodeCBOR(hex(encoded), 0, options)).toThrowError(message);
+			expect(() => decodeCBOR(hex(encoded))).not.toThrowError(message);
+		}
+	});
+});
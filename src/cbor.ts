@@ -0,0 +1,842 @@
+/**
+ * cbor.ts - CBOR编码和解码(RFC 8949)
+ * 
+ * CBOR(Concise Binary Object Representation)是一种类似JSON的二进制数据格式。
+ * WebAuthn的attestation对象和COSE密钥都使用CBOR编码。
+ * 
+ * 每个数据项(data item)以一个初始字节开头：
+ * - 最高3位是主类型(major type)：
+ *   0 无符号整数、1 负整数、2 字节串、3 文本串、4 数组、5 映射(map)、6 标签、7 简单值和浮点数
+ * - 低5位是附加信息(additional information)：
+ *   小于24时直接表示参数的值；24、25、26、27分别表示参数在后面的1、2、4、8个字节中(大端序)；
+ *   31表示不定长度(indefinite length)，数据项以0xff("break")结束
+ * 
+ * 参数对于整数是整数的值(负整数为 -1 - 参数)，对于字符串、数组和映射是长度，对于标签是标签号。
+ * 
+ * 例如：
+ * - 10 => [0x0a]
+ * - 500 => [0x19, 0x01, 0xf4]
+ * - -1 => [0x20]
+ * - "a" => [0x61, 0x61]
+ * - [1, 2] => [0x82, 0x01, 0x02]
+ * 
+ * CBOR的值与JavaScript的值按以下方式对应：
+ * - 整数 => number(安全整数范围内)或bigint
+ * - 浮点数 => number
+ * - 字节串 => Uint8Array
+ * - 文本串 => string
+ * - 数组 => Array
+ * - 映射 => Map
+ * - 标签 => CBORTag(bignum标签2和3会被转换为bigint)
+ * - false/true/null/undefined => false/true/null/undefined，其他简单值 => CBORSimpleValue
+ * 
+ * 确定性编码(deterministic encoding，RFC 8949 第4.2节)要求每个值只有唯一的编码：
+ * 整数和长度使用最短的形式，浮点数使用能精确表示值的最短的格式，不使用不定长度，映射的键按编码后的字节排序。
+ */
+
+import { bigIntBytes, bigIntFromBytes } from "./big.js";
+import { compareBytes, compareBytesOrder, concatenateBytes, DynamicBuffer } from "./bytes.js";
+import { bigEndian } from "./uint.js";
+
+import type { WriteTarget } from "./bytes.js";
+
+/**
+ * CBOR值
+ */
+export type CBORValue =
+	| number
+	| bigint
+	| string
+	| boolean
+	| null
+	| undefined
+	| Uint8Array
+	| CBORValue[]
+	| Map<CBORValue, CBORValue>
+	| CBORTag
+	| CBORSimpleValue;
+
+/**
+ * CBOR编码和解码的选项
+ */
+export interface CBOROptions {
+	/**
+	 * 是否使用确定性编码，默认为false
+	 * 
+	 * 编码时会把映射的键排序；解码时会拒绝所有不符合确定性编码的输入。
+	 */
+	deterministic?: boolean;
+
+	/**
+	 * 解码时允许的最大嵌套深度，默认为64
+	 * 
+	 * 顶层的数据项为第1层，数组、映射和标签中的数据项比外层多1层。
+	 * 解码是递归的，限制深度可以防止不可信的输入(例如大量嵌套的数组)耗尽调用栈。
+	 */
+	maxDepth?: number;
+}
+
+/**
+ * 不定长度数据项的类型
+ */
+export type CBORIndefiniteType = "bytes" | "text" | "array" | "map";
+
+/**
+ * 无效的CBOR编码错误
+ * 
+ * 在以下情况下抛出：
+ * - 编码本身无效，例如保留的附加信息、位置错误的break、无效的UTF-8
+ * - 确定性模式下，输入不符合确定性编码，例如不是最短的整数或浮点数、不定长度、没有排序的映射键
+ * 
+ * 继承自TypeError，与本库中其他的数据错误保持一致。
+ */
+export class CBORError extends TypeError {
+	constructor(message: string) {
+		super(message);
+		this.name = "CBORError";
+	}
+}
+
+/**
+ * 带标签的CBOR值
+ * 
+ * 标签为值附加额外的语义，例如标签1表示时间戳，标签24表示嵌入的CBOR数据。
+ */
+export class CBORTag {
+	/**
+	 * 标签号
+	 */
+	public tag: number;
+
+	/**
+	 * 被标记的值
+	 */
+	public value: CBORValue;
+
+	/**
+	 * 创建一个带标签的值
+	 * 
+	 * @param tag 标签号(非负的安全整数)
+	 * @param value 被标记的值
+	 * @throws 如果标签号无效，抛出TypeError
+	 */
+	constructor(tag: number, value: CBORValue) {
+		if (!Number.isSafeInteger(tag) || tag < 0) {
+			throw new TypeError("Invalid tag");
+		}
+		this.tag = tag;
+		this.value = value;
+	}
+}
+
+/**
+ * false、true、null、undefined以外的CBOR简单值
+ */
+export class CBORSimpleValue {
+	/**
+	 * 简单值(0-19或32-255)
+	 */
+	public value: number;
+
+	/**
+	 * 创建一个简单值
+	 * 
+	 * 20-23分别是false、true、null、undefined，24-31是保留的，所以都不能使用。
+	 * 
+	 * @param value 简单值(0-19或32-255)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	constructor(value: number) {
+		if (!Number.isInteger(value) || value < 0 || value > 255 || (value >= 20 && value < 32)) {
+			throw new TypeError("Invalid simple value");
+		}
+		this.value = value;
+	}
+}
+
+/**
+ * 主类型
+ */
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+/**
+ * bignum的标签号
+ */
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+
+const indefiniteMajorTypes: Record<CBORIndefiniteType, number> = {
+	bytes: MAJOR_BYTES,
+	text: MAJOR_TEXT,
+	array: MAJOR_ARRAY,
+	map: MAJOR_MAP
+};
+
+const textEncoder = new TextEncoder();
+
+// fatal: 遇到无效的UTF-8时抛出错误，ignoreBOM: 保留开头的BOM字符
+const textDecoder = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+/**
+ * 把值编码为CBOR
+ * 
+ * 整数和长度总是使用最短的形式，浮点数使用能精确表示值的最短的格式(NaN总是编码为半精度的 0x7e00)。
+ * 超出64位范围的bigint使用bignum标签(2和3)编码。
+ * 
+ * 值为整数的number(包括超出安全整数范围的，例如2**60)在64位范围内时编码为整数(主类型0或1)，
+ * 超出64位范围的和-0编码为浮点数。解码时超出安全整数范围的整数会返回bigint。
+ * 
+ * 例如：encodeCBOR(new Map([[1, 2]])) 返回 [0xa1, 0x01, 0x02]
+ * 
+ * @param value 要编码的值
+ * @param options 选项
+ * @returns 编码后的字节数组
+ * @throws 如果值无法编码，或者确定性模式下映射有重复的键，抛出TypeError
+ */
+export function encodeCBOR(value: CBORValue, options?: CBOROptions): Uint8Array {
+	const buffer = new DynamicBuffer(0);
+	writeCBOR(buffer, value, options);
+	return buffer.bytes();
+}
+
+/**
+ * 把值以CBOR编码追加到写入目标(DynamicBuffer或SegmentedBuffer)的末尾
+ * 
+ * @param buffer 目标缓冲区
+ * @param value 要编码的值
+ * @param options 选项
+ * @throws 如果值无法编码，或者确定性模式下映射有重复的键，抛出TypeError
+ */
+export function writeCBOR(buffer: WriteTarget, value: CBORValue, options?: CBOROptions): void {
+	if (typeof value === "number") {
+		if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+			if (value >= 0) {
+				writeHeader(buffer, MAJOR_UNSIGNED, value);
+			} else {
+				writeHeader(buffer, MAJOR_NEGATIVE, -1 - value);
+			}
+			return;
+		}
+		// 超出安全整数范围的number也是精确的整数，在64位范围内时按整数编码
+		if (
+			Number.isInteger(value) &&
+			!Object.is(value, -0) &&
+			value >= -(2 ** 64) &&
+			value < 2 ** 64
+		) {
+			writeCBOR(buffer, BigInt(value), options);
+			return;
+		}
+		buffer.write(floatBytes(value));
+		return;
+	}
+	if (typeof value === "bigint") {
+		const negative = value < 0n;
+		const argument = negative ? -1n - value : value;
+		if (argument <= 0xffffffffffffffffn) {
+			writeHeader(buffer, negative ? MAJOR_NEGATIVE : MAJOR_UNSIGNED, argument);
+			return;
+		}
+		writeHeader(buffer, MAJOR_TAG, negative ? TAG_NEGATIVE_BIGNUM : TAG_POSITIVE_BIGNUM);
+		const bytes = bigIntBytes(argument);
+		writeHeader(buffer, MAJOR_BYTES, bytes.byteLength);
+		buffer.write(bytes);
+		return;
+	}
+	if (typeof value === "string") {
+		const bytes = textEncoder.encode(value);
+		writeHeader(buffer, MAJOR_TEXT, bytes.byteLength);
+		buffer.write(bytes);
+		return;
+	}
+	if (typeof value === "boolean") {
+		buffer.writeByte(value ? 0xf5 : 0xf4);
+		return;
+	}
+	if (value === null) {
+		buffer.writeByte(0xf6);
+		return;
+	}
+	if (value === undefined) {
+		buffer.writeByte(0xf7);
+		return;
+	}
+	if (value instanceof Uint8Array) {
+		writeHeader(buffer, MAJOR_BYTES, value.byteLength);
+		buffer.write(value);
+		return;
+	}
+	if (Array.isArray(value)) {
+		writeHeader(buffer, MAJOR_ARRAY, value.length);
+		for (const item of value) {
+			writeCBOR(buffer, item, options);
+		}
+		return;
+	}
+	if (value instanceof Map) {
+		writeHeader(buffer, MAJOR_MAP, value.size);
+		if (!options?.deterministic) {
+			for (const [key, item] of value) {
+				writeCBOR(buffer, key, options);
+				writeCBOR(buffer, item, options);
+			}
+			return;
+		}
+		// 确定性编码：键按编码后的字节的字典序排序
+		const entries: [Uint8Array, CBORValue][] = [];
+		for (const [key, item] of value) {
+			entries.push([encodeCBOR(key, options), item]);
+		}
+		entries.sort((a, b) => compareBytesOrder(a[0], b[0]));
+		for (let i = 0; i < entries.length; i++) {
+			if (i > 0 && compareBytes(entries[i - 1][0], entries[i][0])) {
+				throw new TypeError("Duplicate map key");
+			}
+			buffer.write(entries[i][0]);
+			writeCBOR(buffer, entries[i][1], options);
+		}
+		return;
+	}
+	if (value instanceof CBORTag) {
+		writeHeader(buffer, MAJOR_TAG, value.tag);
+		writeCBOR(buffer, value.value, options);
+		return;
+	}
+	if (value instanceof CBORSimpleValue) {
+		if (value.value < 24) {
+			buffer.writeByte((MAJOR_SIMPLE << 5) | value.value);
+		} else {
+			buffer.writeByte((MAJOR_SIMPLE << 5) | 24);
+			buffer.writeByte(value.value);
+		}
+		return;
+	}
+	throw new TypeError("Unsupported value");
+}
+
+/**
+ * 写入不定长度数据项的开头
+ * 
+ * 之后依次用writeCBOR()写入各个元素(字节串和文本串的每一段必须是同类型的定长字符串，
+ * 映射需要交替写入键和值)，最后调用writeCBORBreak()结束。
+ * 
+ * 例如：
+ * writeCBORIndefinite(buffer, "array");
+ * writeCBOR(buffer, 1);
+ * writeCBOR(buffer, 2);
+ * writeCBORBreak(buffer);
+ * 
+ * 确定性编码不允许使用不定长度。
+ * 
+ * @param buffer 目标缓冲区
+ * @param type 数据项的类型
+ */
+export function writeCBORIndefinite(buffer: WriteTarget, type: CBORIndefiniteType): void {
+	buffer.writeByte((indefiniteMajorTypes[type] << 5) | 31);
+}
+
+/**
+ * 写入结束不定长度数据项的break(0xff)
+ * 
+ * @param buffer 目标缓冲区
+ */
+export function writeCBORBreak(buffer: WriteTarget): void {
+	buffer.writeByte(0xff);
+}
+
+/**
+ * 从字节数组中解码一个CBOR数据项
+ * 
+ * 解码在数据项结束的位置停止，并返回该位置，所以数据项后面可以有其他的数据
+ * (例如WebAuthn的authenticator data中，attested credential data后面可能还有扩展数据)。
+ * 
+ * 定长的字节串是原数组的视图(subarray)，不会复制数据。
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置，默认为0
+ * @param options 选项
+ * @returns [解码的值, 数据项结束的偏移位置]
+ * @throws 如果字节数不足或者最大深度无效，抛出TypeError；如果编码无效、嵌套超过最大深度，或者确定性模式下不是确定性编码，抛出CBORError
+ */
+export function decodeCBOR(
+	data: Uint8Array,
+	offset = 0,
+	options?: CBOROptions
+): [value: CBORValue, next: number] {
+	const decoder = new CBORDecoder(
+		data,
+		offset,
+		options?.deterministic ?? false,
+		options?.maxDepth ?? 64
+	);
+	const value = decoder.readItem();
+	return [value, decoder.offset];
+}
+
+/**
+ * 表示读取到break的标记
+ */
+const BREAK = Symbol();
+
+/**
+ * CBOR解码器
+ * 
+ * 记录当前的读取位置，递归地解码嵌套的数据项。
+ */
+class CBORDecoder {
+	/**
+	 * 源字节数组
+	 */
+	private data: Uint8Array;
+
+	/**
+	 * 是否要求确定性编码
+	 */
+	private deterministic: boolean;
+
+	/**
+	 * 允许的最大嵌套深度
+	 */
+	private maxDepth: number;
+
+	/**
+	 * 当前正在读取的数据项的外层数据项的数量
+	 */
+	private depth = 0;
+
+	/**
+	 * 当前读取位置
+	 */
+	public offset: number;
+
+	/**
+	 * @throws 如果最大深度不是正整数，抛出TypeError
+	 */
+	constructor(data: Uint8Array, offset: number, deterministic: boolean, maxDepth: number) {
+		if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+			throw new TypeError("Invalid maximum depth");
+		}
+		this.data = data;
+		this.offset = offset;
+		this.deterministic = deterministic;
+		this.maxDepth = maxDepth;
+	}
+
+	/**
+	 * 读取一个数据项
+	 * 
+	 * @returns 解码的值
+	 * @throws 如果读取到break，抛出CBORError
+	 */
+	public readItem(): CBORValue {
+		const value = this.readItemOrBreak();
+		if (value === BREAK) {
+			throw new CBORError("Unexpected break");
+		}
+		return value;
+	}
+
+	/**
+	 * 读取一个数据项或者break，并检查嵌套深度
+	 * 
+	 * @returns 解码的值，或者BREAK
+	 * @throws 如果嵌套超过最大深度，抛出CBORError
+	 */
+	private readItemOrBreak(): CBORValue | typeof BREAK {
+		if (this.depth >= this.maxDepth) {
+			throw new CBORError("Maximum depth exceeded");
+		}
+		this.depth++;
+		const value = this.readDataItem();
+		this.depth--;
+		return value;
+	}
+
+	/**
+	 * 读取一个数据项或者break，数组、映射和标签的内容通过readItem()或readItemOrBreak()递归地读取
+	 * 
+	 * @returns 解码的值，或者BREAK
+	 */
+	private readDataItem(): CBORValue | typeof BREAK {
+		const start = this.offset;
+		const initial = bigEndian.uint8(this.data, this.offset);
+		this.offset++;
+		const majorType = initial >> 5;
+		const additional = initial & 0x1f;
+
+		if (majorType === MAJOR_SIMPLE) {
+			return this.readSimple(additional, start);
+		}
+		if (additional === 31) {
+			return this.readIndefinite(majorType);
+		}
+		const argument = this.readArgument(additional);
+		if (majorType === MAJOR_UNSIGNED) {
+			return argument;
+		}
+		if (majorType === MAJOR_NEGATIVE) {
+			if (typeof argument === "number" && argument < Number.MAX_SAFE_INTEGER) {
+				return -1 - argument;
+			}
+			return -1n - BigInt(argument);
+		}
+		if (majorType === MAJOR_TAG) {
+			if (typeof argument === "bigint") {
+				throw new CBORError("Tag too large");
+			}
+			const value = this.readItem();
+			if (argument === TAG_POSITIVE_BIGNUM || argument === TAG_NEGATIVE_BIGNUM) {
+				return this.bignum(argument, value);
+			}
+			return new CBORTag(argument, value);
+		}
+		if (typeof argument === "bigint") {
+			throw new CBORError("Length too large");
+		}
+		if (majorType === MAJOR_BYTES) {
+			return this.readBytes(argument);
+		}
+		if (majorType === MAJOR_TEXT) {
+			return decodeText(this.readBytes(argument));
+		}
+		if (majorType === MAJOR_ARRAY) {
+			const items: CBORValue[] = [];
+			for (let i = 0; i < argument; i++) {
+				items.push(this.readItem());
+			}
+			return items;
+		}
+		const map = new Map<CBORValue, CBORValue>();
+		const keys = new Set<string>();
+		let previousKey: Uint8Array | null = null;
+		for (let i = 0; i < argument; i++) {
+			const keyStart = this.offset;
+			const key = this.readItem();
+			const keyBytes = this.data.subarray(keyStart, this.offset);
+			if (this.deterministic) {
+				// 键必须按编码后的字节严格递增
+				if (previousKey !== null && compareBytesOrder(previousKey, keyBytes) >= 0) {
+					throw new CBORError("Unsorted map keys");
+				}
+				previousKey = keyBytes;
+			}
+			this.setMapEntry(map, keys, key, keyBytes, this.readItem());
+		}
+		return map;
+	}
+
+	/**
+	 * 读取不定长度的数据项，直到break
+	 * 
+	 * @param majorType 主类型
+	 * @returns 解码的值
+	 * @throws 如果主类型不允许不定长度，或者确定性模式下，抛出CBORError
+	 */
+	private readIndefinite(majorType: number): CBORValue {
+		if (majorType === MAJOR_UNSIGNED || majorType === MAJOR_NEGATIVE || majorType === MAJOR_TAG) {
+			throw new CBORError("Invalid additional information");
+		}
+		if (this.deterministic) {
+			throw new CBORError("Indefinite length");
+		}
+		if (majorType === MAJOR_BYTES || majorType === MAJOR_TEXT) {
+			// 每一段都必须是同类型的定长字符串
+			const chunks: Uint8Array[] = [];
+			const texts: string[] = [];
+			for (;;) {
+				const initial = bigEndian.uint8(this.data, this.offset);
+				this.offset++;
+				if (initial === 0xff) {
+					break;
+				}
+				if (initial >> 5 !== majorType || (initial & 0x1f) === 31) {
+					throw new CBORError("Invalid chunk");
+				}
+				const argument = this.readArgument(initial & 0x1f);
+				if (typeof argument === "bigint") {
+					throw new CBORError("Length too large");
+				}
+				const chunk = this.readBytes(argument);
+				if (majorType === MAJOR_TEXT) {
+					texts.push(decodeText(chunk));
+				} else {
+					chunks.push(chunk);
+				}
+			}
+			return majorType === MAJOR_TEXT ? texts.join("") : concatenateBytes(chunks);
+		}
+		if (majorType === MAJOR_ARRAY) {
+			const items: CBORValue[] = [];
+			for (let item = this.readItemOrBreak(); item !== BREAK; item = this.readItemOrBreak()) {
+				items.push(item);
+			}
+			return items;
+		}
+		const map = new Map<CBORValue, CBORValue>();
+		const keys = new Set<string>();
+		for (;;) {
+			const keyStart = this.offset;
+			const key = this.readItemOrBreak();
+			if (key === BREAK) {
+				break;
+			}
+			const keyBytes = this.data.subarray(keyStart, this.offset);
+			this.setMapEntry(map, keys, key, keyBytes, this.readItem());
+		}
+		return map;
+	}
+
+	/**
+	 * 读取主类型7的数据项：简单值、浮点数或break
+	 * 
+	 * @param additional 附加信息
+	 * @param start 数据项开始的位置
+	 * @returns 解码的值，或者BREAK
+	 */
+	private readSimple(additional: number, start: number): CBORValue | typeof BREAK {
+		if (additional < 20) {
+			return new CBORSimpleValue(additional);
+		}
+		switch (additional) {
+			case 20:
+				return false;
+			case 21:
+				return true;
+			case 22:
+				return null;
+			case 23:
+				return undefined;
+			case 24: {
+				const value = bigEndian.uint8(this.data, this.offset);
+				this.offset++;
+				// 小于32的简单值必须使用单字节的形式
+				if (value < 32) {
+					throw new CBORError("Invalid simple value");
+				}
+				return new CBORSimpleValue(value);
+			}
+			case 31:
+				return BREAK;
+		}
+		let value: number;
+		if (additional === 25) {
+			value = bigEndian.float16(this.data, this.offset);
+			this.offset += 2;
+		} else if (additional === 26) {
+			value = bigEndian.float32(this.data, this.offset);
+			this.offset += 4;
+		} else if (additional === 27) {
+			value = bigEndian.float64(this.data, this.offset);
+			this.offset += 8;
+		} else {
+			throw new CBORError("Invalid additional information");
+		}
+		if (
+			this.deterministic &&
+			!compareBytes(this.data.subarray(start, this.offset), floatBytes(value))
+		) {
+			throw new CBORError("Non-minimal float");
+		}
+		return value;
+	}
+
+	/**
+	 * 读取参数
+	 * 
+	 * @param additional 附加信息(0-27)
+	 * @returns 参数，超出安全整数范围时为bigint
+	 * @throws 如果附加信息是保留的值，或者确定性模式下参数不是最短的，抛出CBORError
+	 */
+	private readArgument(additional: number): number | bigint {
+		let argument: number | bigint;
+		let minimum: number | bigint;
+		if (additional < 24) {
+			return additional;
+		} else if (additional === 24) {
+			argument = bigEndian.uint8(this.data, this.offset);
+			minimum = 24;
+			this.offset += 1;
+		} else if (additional === 25) {
+			argument = bigEndian.uint16(this.data, this.offset);
+			minimum = 0x100;
+			this.offset += 2;
+		} else if (additional === 26) {
+			argument = bigEndian.uint32(this.data, this.offset) >>> 0;
+			minimum = 0x10000;
+			this.offset += 4;
+		} else if (additional === 27) {
+			argument = bigEndian.uint64(this.data, this.offset);
+			minimum = 0x100000000n;
+			this.offset += 8;
+			if (argument <= Number.MAX_SAFE_INTEGER) {
+				argument = Number(argument);
+			}
+		} else {
+			throw new CBORError("Invalid additional information");
+		}
+		if (this.deterministic && argument < minimum) {
+			throw new CBORError("Non-minimal argument");
+		}
+		return argument;
+	}
+
+	/**
+	 * 读取指定数量的字节
+	 * 
+	 * @param size 字节数
+	 * @returns 原数组的视图
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	private readBytes(size: number): Uint8Array {
+		if (this.data.byteLength < this.offset + size) {
+			throw new TypeError("Insufficient bytes");
+		}
+		const bytes = this.data.subarray(this.offset, this.offset + size);
+		this.offset += size;
+		return bytes;
+	}
+
+	/**
+	 * 把bignum标签的内容转换为bigint
+	 * 
+	 * @param tag 标签号(2或3)
+	 * @param content 标签的内容
+	 * @returns 整数
+	 * @throws 如果内容不是字节串，或者确定性模式下不是最短的形式，抛出CBORError
+	 */
+	private bignum(tag: number, content: CBORValue): bigint {
+		if (!(content instanceof Uint8Array)) {
+			throw new CBORError("Invalid bignum");
+		}
+		const value = content.byteLength > 0 ? bigIntFromBytes(content) : 0n;
+		// 确定性编码中，可以用64位整数表示的值不能使用bignum，字节串也不能有前导的0
+		if (this.deterministic && (value <= 0xffffffffffffffffn || content[0] === 0)) {
+			throw new CBORError("Non-minimal bignum");
+		}
+		return tag === TAG_POSITIVE_BIGNUM ? value : -1n - value;
+	}
+
+	/**
+	 * 向映射中添加一个键值对
+	 * 
+	 * Map按引用比较字节串、数组和映射，所以还要比较键编码后的字节。
+	 * Map.has()仍然用于检测编码不同但解码后相同的键(例如 1 和 1.0)，否则后面的值会覆盖前面的值。
+	 * 
+	 * @param map 映射
+	 * @param keys 映射中已有的键编码后的字节(十六进制字符串)
+	 * @param key 键
+	 * @param keyBytes 键编码后的字节
+	 * @param value 值
+	 * @throws 如果键已经存在，抛出CBORError
+	 */
+	private setMapEntry(
+		map: Map<CBORValue, CBORValue>,
+		keys: Set<string>,
+		key: CBORValue,
+		keyBytes: Uint8Array,
+		value: CBORValue
+	): void {
+		const encoded = hexString(keyBytes);
+		if (keys.has(encoded) || map.has(key)) {
+			throw new CBORError("Duplicate map key");
+		}
+		keys.add(encoded);
+		map.set(key, value);
+	}
+}
+
+/**
+ * 写入初始字节和参数，参数使用最短的形式
+ * 
+ * @param buffer 目标缓冲区
+ * @param majorType 主类型
+ * @param argument 参数(0到2^64-1)
+ */
+function writeHeader(buffer: WriteTarget, majorType: number, argument: number | bigint): void {
+	const initial = majorType << 5;
+	if (argument < 24) {
+		buffer.writeByte(initial | Number(argument));
+		return;
+	}
+	let header: Uint8Array;
+	if (argument <= 0xff) {
+		header = new Uint8Array([initial | 24, Number(argument)]);
+	} else if (argument <= 0xffff) {
+		header = new Uint8Array(3);
+		header[0] = initial | 25;
+		bigEndian.putUint16(header, Number(argument), 1);
+	} else if (argument <= 0xffffffff) {
+		header = new Uint8Array(5);
+		header[0] = initial | 26;
+		bigEndian.putUint32(header, Number(argument), 1);
+	} else {
+		header = new Uint8Array(9);
+		header[0] = initial | 27;
+		bigEndian.putUint64(header, BigInt(argument), 1);
+	}
+	buffer.write(header);
+}
+
+/**
+ * 把数字编码为能精确表示它的最短的CBOR浮点数
+ * 
+ * @param value 数字
+ * @returns 包含初始字节的编码
+ */
+function floatBytes(value: number): Uint8Array {
+	if (Number.isNaN(value)) {
+		return new Uint8Array([0xf9, 0x7e, 0x00]);
+	}
+	const half = new Uint8Array(3);
+	half[0] = 0xf9;
+	bigEndian.putFloat16(half, value, 1);
+	if (bigEndian.float16(half, 1) === value) {
+		return half;
+	}
+	if (Math.fround(value) === value) {
+		const single = new Uint8Array(5);
+		single[0] = 0xfa;
+		bigEndian.putFloat32(single, value, 1);
+		return single;
+	}
+	const double = new Uint8Array(9);
+	double[0] = 0xfb;
+	bigEndian.putFloat64(double, value, 1);
+	return double;
+}
+
+/**
+ * 把UTF-8字节解码为字符串
+ * 
+ * @param bytes UTF-8字节
+ * @returns 字符串
+ * @throws 如果不是有效的UTF-8，抛出CBORError
+ */
+function decodeText(bytes: Uint8Array): string {
+	try {
+		return textDecoder.decode(bytes);
+	} catch {
+		throw new CBORError("Invalid UTF-8");
+	}
+}
+
+/**
+ * 把字节数组转换为十六进制字符串
+ * 
+ * @param bytes 字节数组
+ * @returns 小写的十六进制字符串
+ */
+function hexString(bytes: Uint8Array): string {
+	let result = "";
+	for (let i = 0; i < bytes.byteLength; i++) {
+		result += bytes[i].toString(16).padStart(2, "0");
+	}
+	return result;
+}
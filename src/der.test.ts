@@ -0,0 +1,240 @@
+/**
+ * der.test.ts - der.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/der.ts` 中ASN.1 DER编码和解码的单元测试。
+ * 测试的目的是确保各种类型的编码与X.690规范和常见的实际数据(例如ECDSA签名、公钥的算法标识符)一致，
+ * 并且能拒绝只有BER允许的编码。
+ */
+import { describe, expect, test } from "vitest";
+import {
+	decodeDER,
+	decodeDERBitString,
+	decodeDERBoolean,
+	decodeDERChildren,
+	decodeDERElement,
+	decodeDERInteger,
+	decodeDERNull,
+	decodeDERObjectIdentifier,
+	decodeDEROctetString,
+	decodeDERSequence,
+	DERError,
+	encodeDERBitString,
+	encodeDERBoolean,
+	encodeDERElement,
+	encodeDERInteger,
+	encodeDERNull,
+	encodeDERObjectIdentifier,
+	encodeDEROctetString,
+	encodeDERSequence
+} from "./der.js";
+
+describe("TLV", () => {
+	// 测试短格式和长格式的长度
+	test("encodeDERElement()/decodeDERElement() 长度", () => {
+		expect(encodeDEROctetString(new Uint8Array(127)).subarray(0, 2)).toStrictEqual(
+			new Uint8Array([0x04, 0x7f])
+		);
+		expect(encodeDEROctetString(new Uint8Array(200)).subarray(0, 3)).toStrictEqual(
+			new Uint8Array([0x04, 0x81, 0xc8])
+		);
+		expect(encodeDEROctetString(new Uint8Array(256)).subarray(0, 4)).toStrictEqual(
+			new Uint8Array([0x04, 0x82, 0x01, 0x00])
+		);
+		const encoded = encodeDEROctetString(new Uint8Array(256).fill(1));
+		const [element, next] = decodeDERElement(encoded, 0);
+		expect(next).toBe(260);
+		expect(decodeDEROctetString(element)).toStrictEqual(new Uint8Array(256).fill(1));
+	});
+
+	// 测试多字节标签和不同的类别
+	test("encodeDERElement()/decodeDERElement() 标签", () => {
+		const value = new Uint8Array([0x05]);
+		expect(
+			encodeDERElement({ tagClass: "context", constructed: true, tag: 0, value })
+		).toStrictEqual(new Uint8Array([0xa0, 0x01, 0x05]));
+		expect(
+			encodeDERElement({ tagClass: "application", constructed: false, tag: 31, value })
+		).toStrictEqual(new Uint8Array([0x5f, 0x1f, 0x01, 0x05]));
+		expect(
+			encodeDERElement({ tagClass: "private", constructed: false, tag: 201, value })
+		).toStrictEqual(new Uint8Array([0xdf, 0x81, 0x49, 0x01, 0x05]));
+		expect(decodeDER(new Uint8Array([0xdf, 0x81, 0x49, 0x01, 0x05]))).toStrictEqual({
+			tagClass: "private",
+			constructed: false,
+			tag: 201,
+			value
+		});
+		expect(() =>
+			encodeDERElement({ tagClass: "context", constructed: false, tag: -1, value })
+		).toThrowError("Invalid tag");
+	});
+
+	// 测试拒绝只有BER允许的编码
+	test("decodeDERElement() 拒绝BER编码", () => {
+		// 不定长度
+		expect(() => decodeDERElement(new Uint8Array([0x30, 0x80, 0x00, 0x00]), 0)).toThrowError(
+			new DERError("Indefinite length")
+		);
+		// 可以使用短格式的长度
+		expect(() => decodeDERElement(new Uint8Array([0x04, 0x81, 0x01, 0x00]), 0)).toThrowError(
+			"Non-minimal length"
+		);
+		// 长度有前导的0字节
+		const padded = new Uint8Array(4 + 200);
+		padded.set([0x04, 0x82, 0x00, 0xc8]);
+		expect(() => decodeDERElement(padded, 0)).toThrowError("Non-minimal length");
+		// 可以使用单字节的标签
+		expect(() => decodeDERElement(new Uint8Array([0x1f, 0x02, 0x01, 0x00]), 0)).toThrowError(
+			"Non-minimal tag"
+		);
+		expect(() => decodeDERElement(new Uint8Array([0x1f, 0x80, 0x20, 0x01, 0x00]), 0)).toThrowError(
+			"Non-minimal tag"
+		);
+		// 字节数不足
+		expect(() => decodeDERElement(new Uint8Array([0x04, 0x02, 0x00]), 0)).toThrowError(
+			"Insufficient bytes"
+		);
+		expect(() => decodeDERElement(new Uint8Array([0x04, 0x82, 0x01]), 0)).toThrowError(
+			"Insufficient bytes"
+		);
+		// 多余的数据
+		expect(() => decodeDER(new Uint8Array([0x05, 0x00, 0x00]))).toThrowError("Trailing data");
+	});
+});
+
+describe("通用类型", () => {
+	test("encodeDERInteger()/decodeDERInteger()", () => {
+		const cases: [bigint, number[]][] = [
+			[0n, [0x00]],
+			[127n, [0x7f]],
+			[128n, [0x00, 0x80]],
+			[256n, [0x01, 0x00]],
+			[-1n, [0xff]],
+			[-128n, [0x80]],
+			[-129n, [0xff, 0x7f]],
+			[-256n, [0xff, 0x00]]
+		];
+		for (const [value, bytes] of cases) {
+			const encoded = encodeDERInteger(value);
+			expect(encoded).toStrictEqual(new Uint8Array([0x02, bytes.length, ...bytes]));
+			expect(decodeDERInteger(decodeDER(encoded))).toBe(value);
+		}
+		const large = 2n ** 255n + 19n;
+		expect(decodeDERInteger(decodeDER(encodeDERInteger(large)))).toBe(large);
+		expect(decodeDERInteger(decodeDER(encodeDERInteger(-large)))).toBe(-large);
+		// 不是最短的编码
+		expect(() =>
+			decodeDERInteger(decodeDER(new Uint8Array([0x02, 0x02, 0x00, 0x7f])))
+		).toThrowError("Non-minimal integer");
+		expect(() =>
+			decodeDERInteger(decodeDER(new Uint8Array([0x02, 0x02, 0xff, 0x80])))
+		).toThrowError("Non-minimal integer");
+		expect(() => decodeDERInteger(decodeDER(new Uint8Array([0x02, 0x00])))).toThrowError(
+			"Invalid integer"
+		);
+		// 类型不一致
+		expect(() => decodeDERInteger(decodeDER(new Uint8Array([0x04, 0x01, 0x00])))).toThrowError(
+			"Unexpected element"
+		);
+	});
+
+	test("encodeDERBoolean()/decodeDERBoolean()", () => {
+		expect(encodeDERBoolean(true)).toStrictEqual(new Uint8Array([0x01, 0x01, 0xff]));
+		expect(encodeDERBoolean(false)).toStrictEqual(new Uint8Array([0x01, 0x01, 0x00]));
+		expect(decodeDERBoolean(decodeDER(new Uint8Array([0x01, 0x01, 0xff])))).toBe(true);
+		expect(decodeDERBoolean(decodeDER(new Uint8Array([0x01, 0x01, 0x00])))).toBe(false);
+		// BER允许任何非0的值表示true，DER只允许0xff
+		expect(() => decodeDERBoolean(decodeDER(new Uint8Array([0x01, 0x01, 0x01])))).toThrowError(
+			"Invalid boolean"
+		);
+	});
+
+	test("encodeDERNull()/decodeDERNull()", () => {
+		expect(encodeDERNull()).toStrictEqual(new Uint8Array([0x05, 0x00]));
+		expect(() => decodeDERNull(decodeDER(encodeDERNull()))).not.toThrow();
+		expect(() => decodeDERNull(decodeDER(new Uint8Array([0x05, 0x01, 0x00])))).toThrowError(
+			"Invalid null"
+		);
+	});
+
+	test("encodeDERBitString()/decodeDERBitString()", () => {
+		const encoded = encodeDERBitString(new Uint8Array([0x6e, 0x5d, 0xc0]), 6);
+		expect(encoded).toStrictEqual(new Uint8Array([0x03, 0x04, 0x06, 0x6e, 0x5d, 0xc0]));
+		expect(decodeDERBitString(decodeDER(encoded))).toStrictEqual([
+			new Uint8Array([0x6e, 0x5d, 0xc0]),
+			6
+		]);
+		expect(encodeDERBitString(new Uint8Array())).toStrictEqual(new Uint8Array([0x03, 0x01, 0x00]));
+		// 未使用的位必须为0
+		expect(() => encodeDERBitString(new Uint8Array([0x01]), 1)).toThrowError("Invalid unused bits");
+		expect(() =>
+			decodeDERBitString(decodeDER(new Uint8Array([0x03, 0x02, 0x01, 0x01])))
+		).toThrowError("Invalid bit string");
+		expect(() => decodeDERBitString(decodeDER(new Uint8Array([0x03, 0x01, 0x08])))).toThrowError(
+			"Invalid bit string"
+		);
+	});
+
+	test("encodeDERObjectIdentifier()/decodeDERObjectIdentifier()", () => {
+		// id-ecPublicKey
+		const ecPublicKey = new Uint8Array([0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01]);
+		expect(encodeDERObjectIdentifier("1.2.840.10045.2.1")).toStrictEqual(ecPublicKey);
+		expect(decodeDERObjectIdentifier(decodeDER(ecPublicKey))).toBe("1.2.840.10045.2.1");
+		// X.690 中的示例，第一个数字为2时第二个数字可以大于39
+		expect(encodeDERObjectIdentifier("2.999.3")).toStrictEqual(
+			new Uint8Array([0x06, 0x03, 0x88, 0x37, 0x03])
+		);
+		expect(
+			decodeDERObjectIdentifier(decodeDER(new Uint8Array([0x06, 0x03, 0x88, 0x37, 0x03])))
+		).toBe("2.999.3");
+		// 超出安全整数范围的数字
+		const uuid = "2.25.329800735698586629295641978511506172918";
+		expect(decodeDERObjectIdentifier(decodeDER(encodeDERObjectIdentifier(uuid)))).toBe(uuid);
+		for (const oid of ["1", "3.1", "1.40", "1.2.03", "1..2", "1.2.a"]) {
+			expect(() => encodeDERObjectIdentifier(oid)).toThrowError("Invalid object identifier");
+		}
+		// 数字有前导的0x80
+		expect(() =>
+			decodeDERObjectIdentifier(decodeDER(new Uint8Array([0x06, 0x03, 0x2a, 0x80, 0x01])))
+		).toThrowError("Invalid object identifier");
+		// 最后一个字节设置了继续位
+		expect(() =>
+			decodeDERObjectIdentifier(decodeDER(new Uint8Array([0x06, 0x02, 0x2a, 0x86])))
+		).toThrowError("Invalid object identifier");
+	});
+
+	// 测试ECDSA签名：SEQUENCE { INTEGER r, INTEGER s }
+	test("encodeDERSequence()/decodeDERSequence()", () => {
+		const signature = encodeDERSequence(encodeDERInteger(0x80n), encodeDERInteger(1n));
+		expect(signature).toStrictEqual(
+			new Uint8Array([0x30, 0x07, 0x02, 0x02, 0x00, 0x80, 0x02, 0x01, 0x01])
+		);
+		const [r, s] = decodeDERSequence(decodeDER(signature));
+		expect(decodeDERInteger(r)).toBe(0x80n);
+		expect(decodeDERInteger(s)).toBe(1n);
+		expect(decodeDERSequence(decodeDER(encodeDERSequence()))).toStrictEqual([]);
+		expect(() => decodeDERSequence(decodeDER(encodeDERNull()))).toThrowError("Unexpected element");
+	});
+
+	// 测试嵌套的构造类型，例如 [0] EXPLICIT SEQUENCE { OCTET STRING }
+	test("decodeDERChildren()", () => {
+		const inner = encodeDERSequence(encodeDEROctetString(new Uint8Array([0x01, 0x02])));
+		const encoded = encodeDERElement({
+			tagClass: "context",
+			constructed: true,
+			tag: 0,
+			value: inner
+		});
+		const [sequence] = decodeDERChildren(decodeDER(encoded));
+		const [octets] = decodeDERSequence(sequence);
+		expect(decodeDEROctetString(octets)).toStrictEqual(new Uint8Array([0x01, 0x02]));
+		// DER不允许构造类型的OCTET STRING
+		const constructed = new Uint8Array([0x24, 0x03, 0x04, 0x01, 0x00]);
+		expect(() => decodeDEROctetString(decodeDER(constructed))).toThrowError("Unexpected element");
+		expect(() => decodeDERChildren(decodeDER(encodeDERNull()))).toThrowError("Unexpected element");
+		// 子元素超出了父元素的范围
+		expect(() =>
+			decodeDERChildren(decodeDER(new Uint8Array([0x30, 0x02, 0x04, 0x02])))
+		).toThrowError("Insufficient bytes");
+	});
+});
@@ -0,0 +1,601 @@
+/**
+ * der.ts - ASN.1 DER编码的读取和写入
+ * 
+ * ASN.1是描述数据结构的标准语言，DER(Distinguished Encoding Rules)是它的一种二进制编码规则。
+ * X.509证书、PKCS#8私钥、ECDSA签名等都使用DER编码。
+ * 
+ * DER把每个值编码为"标签-长度-值"(TLV, Tag-Length-Value)三部分：
+ * - 标签(identifier)：第一个字节的最高2位是类别(class)，第6位表示是否为构造类型(constructed)，
+ *   低5位是标签号。标签号大于等于31时，低5位全为1，标签号以base-128的形式写在后面的字节中
+ * - 长度：小于128时直接用一个字节表示(短格式)；否则第一个字节为 0x80 | n，后面跟n个字节的大端序长度(长格式)
+ * - 值：长度指定的字节数。构造类型(例如SEQUENCE)的值是若干个编码好的子元素
+ * 
+ * 例如，INTEGER 5 被编码为 [0x02, 0x01, 0x05]：
+ * - 0x02：通用类别(universal)、基本类型(primitive)、标签号2(INTEGER)
+ * - 0x01：长度为1
+ * - 0x05：值
+ * 
+ * BER允许同一个值有多种编码，而DER要求每个值只有唯一的编码。
+ * 所以本模块会拒绝只有BER允许的编码，例如不定长度(indefinite length)、不是最短的长度和整数等。
+ */
+
+import { bigIntBytes, bigIntFromBytes } from "./big.js";
+import { concatenateBytes } from "./bytes.js";
+
+/**
+ * 标签的类别
+ * 
+ * - "universal"：通用类别，ASN.1内置的类型，例如INTEGER、SEQUENCE
+ * - "application"：应用类别
+ * - "context"：上下文相关类别，例如X.509中的 [0] EXPLICIT
+ * - "private"：私有类别
+ */
+export type DERClass = "universal" | "application" | "context" | "private";
+
+/**
+ * DER元素
+ * 
+ * 表示一个解码后的TLV，值(value)是原数组的视图。
+ */
+export interface DERElement {
+	/**
+	 * 标签的类别
+	 */
+	tagClass: DERClass;
+
+	/**
+	 * 是否为构造类型(值由子元素组成)
+	 */
+	constructed: boolean;
+
+	/**
+	 * 标签号
+	 */
+	tag: number;
+
+	/**
+	 * 值的字节
+	 */
+	value: Uint8Array;
+}
+
+/**
+ * 无效的DER编码错误
+ * 
+ * 在以下情况下抛出：
+ * - 使用了只有BER允许的编码，例如不定长度、不是最短的长度、标签或整数
+ * - 元素的类型与期望的不一致，例如把OCTET STRING当作INTEGER解码
+ * - 元素的值不符合类型的要求，例如长度不为1的BOOLEAN
+ * 
+ * 继承自TypeError，与本库中其他的数据错误保持一致。
+ */
+export class DERError extends TypeError {
+	constructor(message: string) {
+		super(message);
+		this.name = "DERError";
+	}
+}
+
+/**
+ * 通用类别的标签号
+ */
+const TAG_BOOLEAN = 1;
+const TAG_INTEGER = 2;
+const TAG_BIT_STRING = 3;
+const TAG_OCTET_STRING = 4;
+const TAG_NULL = 5;
+const TAG_OBJECT_IDENTIFIER = 6;
+const TAG_SEQUENCE = 16;
+
+/**
+ * 类别在标签第一个字节最高2位中的值
+ */
+const classBits: Record<DERClass, number> = {
+	universal: 0x00,
+	application: 0x40,
+	context: 0x80,
+	private: 0xc0
+};
+
+const classes: DERClass[] = ["universal", "application", "context", "private"];
+
+/**
+ * 把DER元素编码为字节数组
+ * 
+ * 例如：encodeDERElement({ tagClass: "context", constructed: true, tag: 0, value })
+ * 可以用来编码X.509中的 [0] EXPLICIT 字段。
+ * 
+ * @param element 要编码的元素
+ * @returns 编码后的字节数组
+ * @throws 如果标签号无效，抛出TypeError
+ */
+export function encodeDERElement(element: DERElement): Uint8Array {
+	const identifier = encodeIdentifier(element.tagClass, element.constructed, element.tag);
+	const length = encodeLength(element.value.byteLength);
+	const encoded = new Uint8Array(
+		identifier.byteLength + length.byteLength + element.value.byteLength
+	);
+	encoded.set(identifier);
+	encoded.set(length, identifier.byteLength);
+	encoded.set(element.value, identifier.byteLength + length.byteLength);
+	return encoded;
+}
+
+/**
+ * 从字节数组中解码一个DER元素
+ * 
+ * 返回的元素的值是原数组的视图(subarray)，不会复制数据。
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置
+ * @returns [解码的元素, 元素之后的偏移位置]
+ * @throws 如果字节数不足，抛出TypeError；如果编码不是有效的DER，抛出DERError
+ */
+export function decodeDERElement(
+	data: Uint8Array,
+	offset: number
+): [element: DERElement, next: number] {
+	const first = readByte(data, offset++);
+	const tagClass = classes[first >> 6];
+	const constructed = (first & 0x20) !== 0;
+	let tag = first & 0x1f;
+	if (tag === 0x1f) {
+		// 多字节标签：base-128，最高位为继续位
+		tag = 0;
+		let byte = readByte(data, offset++);
+		if (byte === 0x80) {
+			throw new DERError("Non-minimal tag");
+		}
+		for (;;) {
+			if (tag > 0x1fffff) {
+				throw new DERError("Tag too large");
+			}
+			tag = tag * 128 + (byte & 0x7f);
+			if ((byte & 0x80) === 0) {
+				break;
+			}
+			byte = readByte(data, offset++);
+		}
+		if (tag < 0x1f) {
+			throw new DERError("Non-minimal tag");
+		}
+	}
+
+	let length = readByte(data, offset++);
+	if (length === 0x80) {
+		throw new DERError("Indefinite length");
+	}
+	if (length > 0x80) {
+		const lengthSize = length & 0x7f;
+		if (lengthSize > 4) {
+			throw new DERError("Length too large");
+		}
+		length = 0;
+		for (let i = 0; i < lengthSize; i++) {
+			length = length * 256 + readByte(data, offset++);
+		}
+		// 长格式的长度不能有前导的0字节，也不能小于128(应该使用短格式)
+		if (length < 0x80 || length < 2 ** ((lengthSize - 1) * 8)) {
+			throw new DERError("Non-minimal length");
+		}
+	}
+	if (data.byteLength < offset + length) {
+		throw new TypeError("Insufficient bytes");
+	}
+	const value = data.subarray(offset, offset + length);
+	return [{ tagClass, constructed, tag, value }, offset + length];
+}
+
+/**
+ * 解码一个完整的DER编码
+ * 
+ * 与decodeDERElement()不同，字节数组必须正好包含一个元素，后面不能有多余的数据。
+ * 
+ * @param data 源字节数组
+ * @returns 解码的元素
+ * @throws 如果字节数不足，抛出TypeError；如果编码不是有效的DER或有多余的数据，抛出DERError
+ */
+export function decodeDER(data: Uint8Array): DERElement {
+	const [element, next] = decodeDERElement(data, 0);
+	if (next !== data.byteLength) {
+		throw new DERError("Trailing data");
+	}
+	return element;
+}
+
+/**
+ * 解码构造类型元素的所有子元素
+ * 
+ * 可以用于任何构造类型，例如SET或者 [0] EXPLICIT 这样的上下文相关标签。
+ * 
+ * @param element 构造类型的元素
+ * @returns 子元素的数组
+ * @throws 如果元素不是构造类型，或者子元素的编码无效，抛出DERError或TypeError
+ */
+export function decodeDERChildren(element: DERElement): DERElement[] {
+	if (!element.constructed) {
+		throw new DERError("Unexpected element");
+	}
+	const children: DERElement[] = [];
+	let offset = 0;
+	while (offset < element.value.byteLength) {
+		const [child, next] = decodeDERElement(element.value, offset);
+		children.push(child);
+		offset = next;
+	}
+	return children;
+}
+
+/**
+ * 编码SEQUENCE
+ * 
+ * @param children 已经编码好的子元素
+ * @returns 编码后的字节数组
+ */
+export function encodeDERSequence(...children: Uint8Array[]): Uint8Array {
+	return encodeDERElement({
+		tagClass: "universal",
+		constructed: true,
+		tag: TAG_SEQUENCE,
+		value: concatenateBytes(children)
+	});
+}
+
+/**
+ * 解码SEQUENCE的子元素
+ * 
+ * @param element SEQUENCE元素
+ * @returns 子元素的数组
+ * @throws 如果元素不是SEQUENCE，或者子元素的编码无效，抛出DERError或TypeError
+ */
+export function decodeDERSequence(element: DERElement): DERElement[] {
+	expectUniversal(element, TAG_SEQUENCE, true);
+	return decodeDERChildren(element);
+}
+
+/**
+ * 编码INTEGER
+ * 
+ * 整数以二进制补码的形式使用最少的字节数编码。
+ * 例如：127 => [0x02, 0x01, 0x7f]，128 => [0x02, 0x02, 0x00, 0x80]，-1 => [0x02, 0x01, 0xff]
+ * 
+ * @param value 要编码的整数
+ * @returns 编码后的字节数组
+ */
+export function encodeDERInteger(value: bigint): Uint8Array {
+	// 负数的二进制补码等于 -value - 1 的每一位取反
+	const magnitude = bigIntBytes(value < 0n ? -value - 1n : value);
+	let bytes = magnitude;
+	if ((magnitude[0] & 0x80) !== 0) {
+		// 最高位为1时需要额外的一个字节，否则会被当作符号位
+		bytes = new Uint8Array(magnitude.byteLength + 1);
+		bytes.set(magnitude, 1);
+	}
+	if (value < 0n) {
+		for (let i = 0; i < bytes.byteLength; i++) {
+			bytes[i] = ~bytes[i] & 0xff;
+		}
+	}
+	return encodeDERElement({
+		tagClass: "universal",
+		constructed: false,
+		tag: TAG_INTEGER,
+		value: bytes
+	});
+}
+
+/**
+ * 解码INTEGER
+ * 
+ * @param element INTEGER元素
+ * @returns 整数
+ * @throws 如果元素不是INTEGER，或者编码不是最短的，抛出DERError
+ */
+export function decodeDERInteger(element: DERElement): bigint {
+	expectUniversal(element, TAG_INTEGER, false);
+	const bytes = element.value;
+	if (bytes.byteLength < 1) {
+		throw new DERError("Invalid integer");
+	}
+	// 前9位全为0或全为1时，第一个字节是多余的
+	if (
+		bytes.byteLength > 1 &&
+		((bytes[0] === 0x00 && (bytes[1] & 0x80) === 0) ||
+			(bytes[0] === 0xff && (bytes[1] & 0x80) !== 0))
+	) {
+		throw new DERError("Non-minimal integer");
+	}
+	const value = bigIntFromBytes(bytes);
+	if ((bytes[0] & 0x80) !== 0) {
+		return value - (1n << BigInt(bytes.byteLength * 8));
+	}
+	return value;
+}
+
+/**
+ * 编码BOOLEAN
+ * 
+ * DER规定true必须编码为0xff。
+ * 
+ * @param value 布尔值
+ * @returns 编码后的字节数组
+ */
+export function encodeDERBoolean(value: boolean): Uint8Array {
+	return encodeDERElement({
+		tagClass: "universal",
+		constructed: false,
+		tag: TAG_BOOLEAN,
+		value: new Uint8Array([value ? 0xff : 0x00])
+	});
+}
+
+/**
+ * 解码BOOLEAN
+ * 
+ * @param element BOOLEAN元素
+ * @returns 布尔值
+ * @throws 如果元素不是BOOLEAN，或者值不是0x00或0xff，抛出DERError
+ */
+export function decodeDERBoolean(element: DERElement): boolean {
+	expectUniversal(element, TAG_BOOLEAN, false);
+	if (element.value.byteLength !== 1 || (element.value[0] !== 0x00 && element.value[0] !== 0xff)) {
+		throw new DERError("Invalid boolean");
+	}
+	return element.value[0] === 0xff;
+}
+
+/**
+ * 编码NULL
+ * 
+ * @returns 编码后的字节数组 [0x05, 0x00]
+ */
+export function encodeDERNull(): Uint8Array {
+	return new Uint8Array([TAG_NULL, 0x00]);
+}
+
+/**
+ * 检查元素是否为NULL
+ * 
+ * @param element NULL元素
+ * @throws 如果元素不是NULL，或者值不为空，抛出DERError
+ */
+export function decodeDERNull(element: DERElement): void {
+	expectUniversal(element, TAG_NULL, false);
+	if (element.value.byteLength !== 0) {
+		throw new DERError("Invalid null");
+	}
+}
+
+/**
+ * 编码OCTET STRING
+ * 
+ * @param bytes 字节数组
+ * @returns 编码后的字节数组
+ */
+export function encodeDEROctetString(bytes: Uint8Array): Uint8Array {
+	return encodeDERElement({
+		tagClass: "universal",
+		constructed: false,
+		tag: TAG_OCTET_STRING,
+		value: bytes
+	});
+}
+
+/**
+ * 解码OCTET STRING
+ * 
+ * DER不允许构造类型的OCTET STRING。返回的是原数组的视图。
+ * 
+ * @param element OCTET STRING元素
+ * @returns 字节数组
+ * @throws 如果元素不是OCTET STRING，抛出DERError
+ */
+export function decodeDEROctetString(element: DERElement): Uint8Array {
+	expectUniversal(element, TAG_OCTET_STRING, false);
+	return element.value;
+}
+
+/**
+ * 编码BIT STRING
+ * 
+ * BIT STRING的值的第一个字节是最后一个字节中未使用的位数(0-7)，未使用的位必须为0。
+ * 例如，公钥通常以 unusedBits = 0 的BIT STRING存储。
+ * 
+ * @param bytes 位串的字节
+ * @param unusedBits 最后一个字节中未使用的(最低的)位数，默认为0
+ * @returns 编码后的字节数组
+ * @throws 如果unusedBits无效，或者未使用的位不为0，抛出TypeError
+ */
+export function encodeDERBitString(bytes: Uint8Array, unusedBits = 0): Uint8Array {
+	if (!Number.isInteger(unusedBits) || unusedBits < 0 || unusedBits > 7) {
+		throw new TypeError("Invalid unused bits");
+	}
+	if (
+		unusedBits > 0 &&
+		(bytes.byteLength < 1 || (bytes[bytes.byteLength - 1] & ((1 << unusedBits) - 1)) !== 0)
+	) {
+		throw new TypeError("Invalid unused bits");
+	}
+	const value = new Uint8Array(bytes.byteLength + 1);
+	value[0] = unusedBits;
+	value.set(bytes, 1);
+	return encodeDERElement({
+		tagClass: "universal",
+		constructed: false,
+		tag: TAG_BIT_STRING,
+		value
+	});
+}
+
+/**
+ * 解码BIT STRING
+ * 
+ * 返回的字节是原数组的视图。
+ * 
+ * @param element BIT STRING元素
+ * @returns [位串的字节, 最后一个字节中未使用的位数]
+ * @throws 如果元素不是BIT STRING，或者编码无效，抛出DERError
+ */
+export function decodeDERBitString(element: DERElement): [bytes: Uint8Array, unusedBits: number] {
+	expectUniversal(element, TAG_BIT_STRING, false);
+	const value = element.value;
+	if (value.byteLength < 1 || value[0] > 7) {
+		throw new DERError("Invalid bit string");
+	}
+	const unusedBits = value[0];
+	if (
+		unusedBits > 0 &&
+		(value.byteLength < 2 || (value[value.byteLength - 1] & ((1 << unusedBits) - 1)) !== 0)
+	) {
+		throw new DERError("Invalid bit string");
+	}
+	return [value.subarray(1), unusedBits];
+}
+
+/**
+ * 编码OBJECT IDENTIFIER
+ * 
+ * 对象标识符(OID)以点分隔的数字表示，例如 "1.2.840.10045.2.1"(椭圆曲线公钥)。
+ * 前两个数字合并为 40 * 第一个 + 第二个，然后每个数字以base-128编码，最高位为继续位。
+ * 
+ * @param oid 点分隔的对象标识符
+ * @returns 编码后的字节数组
+ * @throws 如果对象标识符无效，抛出TypeError
+ */
+export function encodeDERObjectIdentifier(oid: string): Uint8Array {
+	const parts = oid.split(".");
+	if (parts.length < 2 || parts.some((part) => !/^(0|[1-9][0-9]*)$/.test(part))) {
+		throw new TypeError("Invalid object identifier");
+	}
+	const arcs = parts.map((part) => BigInt(part));
+	if (arcs[0] > 2n || (arcs[0] < 2n && arcs[1] > 39n)) {
+		throw new TypeError("Invalid object identifier");
+	}
+	const subidentifiers = [arcs[0] * 40n + arcs[1], ...arcs.slice(2)];
+	const bytes: number[] = [];
+	for (let subidentifier of subidentifiers) {
+		// 从低位到高位每7位一组，除了最后一组以外都要设置继续位
+		const groups = [Number(subidentifier & 0x7fn)];
+		for (subidentifier >>= 7n; subidentifier > 0n; subidentifier >>= 7n) {
+			groups.unshift(Number(subidentifier & 0x7fn) | 0x80);
+		}
+		bytes.push(...groups);
+	}
+	return encodeDERElement({
+		tagClass: "universal",
+		constructed: false,
+		tag: TAG_OBJECT_IDENTIFIER,
+		value: new Uint8Array(bytes)
+	});
+}
+
+/**
+ * 解码OBJECT IDENTIFIER
+ * 
+ * @param element OBJECT IDENTIFIER元素
+ * @returns 点分隔的对象标识符
+ * @throws 如果元素不是OBJECT IDENTIFIER，或者编码无效，抛出DERError
+ */
+export function decodeDERObjectIdentifier(element: DERElement): string {
+	expectUniversal(element, TAG_OBJECT_IDENTIFIER, false);
+	const value = element.value;
+	if (value.byteLength < 1 || (value[value.byteLength - 1] & 0x80) !== 0) {
+		throw new DERError("Invalid object identifier");
+	}
+	const arcs: bigint[] = [];
+	let subidentifier = 0n;
+	for (let i = 0; i < value.byteLength; i++) {
+		// 每个数字的第一个字节不能是0x80(前导的0)
+		if (subidentifier === 0n && value[i] === 0x80) {
+			throw new DERError("Invalid object identifier");
+		}
+		subidentifier = (subidentifier << 7n) | BigInt(value[i] & 0x7f);
+		if ((value[i] & 0x80) === 0) {
+			if (arcs.length === 0) {
+				// 第一个数字包含了前两个数字
+				const first = subidentifier < 80n ? subidentifier / 40n : 2n;
+				arcs.push(first, subidentifier - first * 40n);
+			} else {
+				arcs.push(subidentifier);
+			}
+			subidentifier = 0n;
+		}
+	}
+	return arcs.join(".");
+}
+
+/**
+ * 检查元素是否为指定的通用类型
+ * 
+ * @param element 元素
+ * @param tag 期望的标签号
+ * @param constructed 期望是否为构造类型
+ * @throws 如果元素的类型不一致，抛出DERError
+ */
+function expectUniversal(element: DERElement, tag: number, constructed: boolean): void {
+	if (
+		element.tagClass !== "universal" ||
+		element.tag !== tag ||
+		element.constructed !== constructed
+	) {
+		throw new DERError("Unexpected element");
+	}
+}
+
+/**
+ * 编码标签
+ * 
+ * @param tagClass 类别
+ * @param constructed 是否为构造类型
+ * @param tag 标签号
+ * @returns 编码后的标签字节
+ * @throws 如果标签号无效，抛出TypeError
+ */
+function encodeIdentifier(tagClass: DERClass, constructed: boolean, tag: number): Uint8Array {
+	if (!Number.isInteger(tag) || tag < 0 || tag > 0xfffffff) {
+		throw new TypeError("Invalid tag");
+	}
+	const first = classBits[tagClass] | (constructed ? 0x20 : 0);
+	if (tag < 0x1f) {
+		return new Uint8Array([first | tag]);
+	}
+	const bytes = [tag & 0x7f];
+	for (tag = Math.floor(tag / 128); tag > 0; tag = Math.floor(tag / 128)) {
+		bytes.unshift((tag & 0x7f) | 0x80);
+	}
+	return new Uint8Array([first | 0x1f, ...bytes]);
+}
+
+/**
+ * 编码长度
+ * 
+ * 小于128的长度使用短格式，否则使用最短的长格式。
+ * 
+ * @param length 长度
+ * @returns 编码后的长度字节
+ */
+function encodeLength(length: number): Uint8Array {
+	if (length < 0x80) {
+		return new Uint8Array([length]);
+	}
+	const bytes: number[] = [];
+	for (; length > 0; length = Math.floor(length / 256)) {
+		bytes.unshift(length & 0xff);
+	}
+	return new Uint8Array([0x80 | bytes.length, ...bytes]);
+}
+
+/**
+ * 读取一个字节
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置
+ * @returns 字节的值
+ * @throws 如果字节数不足，抛出TypeError
+ */
+function readByte(data: Uint8Array, offset: number): number {
+	if (offset >= data.byteLength) {
+		throw new TypeError("Insufficient bytes");
+	}
+	return data[offset];
+}
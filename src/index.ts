@@ -8,20 +8,60 @@
  * 
  * 1. 字节操作：
  *   - compareBytes: 比较两个字节数组是否相同
- *   - concatenateBytes: 连接两个字节数组
- *   - DynamicBuffer: 动态增长的字节缓冲区
+ *   - equalBytesConstantTime/compareBytesConstantTime: 常量时间的相等比较和字典序比较
+ *   - select/conditionalCopy/conditionalSwap: 常量时间的条件选择、复制和交换
+ *   - xorBytes/andBytes/orBytes/notBytes及对应的*Into: 字节数组的按位运算
+ *   - compareBytesOrder/sortBytes/binarySearchBytes: 按字典序比较、排序和二分查找
+ *   - indexOfBytes/lastIndexOfBytes/includesBytes: 查找子序列
+ *   - startsWithBytes/endsWithBytes/splitBytes: 检查前缀和后缀、按分隔符拆分
+ *   - concatenateBytes/concatenateBytesInto: 连接多个字节数组
+ *   - DynamicBuffer: 动态增长的字节缓冲区，支持清零丢弃数据的安全模式和最大容量
+ *   - BufferCapacityError: 超出DynamicBuffer最大容量的错误
+ *   - SegmentedBuffer: 把写入的数据保存为一组段的缓冲区，追加时不复制已有的数据
+ *   - WriteTarget: DynamicBuffer和SegmentedBuffer共同实现的写入目标接口
  *   
  * 2. 字节序和无符号整数转换：
  *   - bigEndian: 大端序(高位字节在前)处理器
  *   - littleEndian: 小端序(低位字节在前)处理器
  *   - ByteOrder: 字节序接口类型定义
  *   
- * 3. 位操作：
+ * 3. 二进制读写：
+ *   - BinaryReader: 基于游标的二进制读取器，自动维护读取位置
+ *   - BinaryWriter: 按字节序向DynamicBuffer或SegmentedBuffer追加整数的写入器
+ *   - BitReader/BitWriter: 按位读写任意位宽的值和指数哥伦布编码
+ *   
+ * 4. 变长整数：
+ *   - encodeVarint/decodeVarint/decodeBigVarint/writeVarint: LEB128变长整数的编码和解码
+ *   - zigzagEncode/zigzagDecode: 有符号整数的zigzag映射
+ *   - encodeQuicVarint/putQuicVarint/readQuicVarint/readBigQuicVarint: QUIC(RFC 9000)变长整数的编码和解码
+ *   - VarintError: 无效的变长整数编码错误
+ *   
+ * 5. 带长度前缀的字节向量：
+ *   - encodeVector/writeVector/decodeVector: TLS风格的长度前缀(1-4字节)字节向量的编码和解码
+ *   
+ * 6. ASN.1 DER：
+ *   - decodeDER/decodeDERElement/encodeDERElement: 标签-长度-值(TLV)元素的读取和写入
+ *   - encodeDERInteger/decodeDERInteger等: INTEGER、BOOLEAN、NULL、BIT STRING、OCTET STRING、
+ *     OBJECT IDENTIFIER和SEQUENCE的编码和解码
+ *   - DERError: 无效的DER编码错误
+ *   
+ * 7. CBOR：
+ *   - encodeCBOR/writeCBOR/decodeCBOR: CBOR(RFC 8949)的编码和解码，支持确定性编码
+ *   - writeCBORIndefinite/writeCBORBreak: 写入不定长度的数据项
+ *   - CBORTag/CBORSimpleValue: 标签和简单值
+ *   - CBORError: 无效的CBOR编码错误
+ *   
+ * 8. 位操作：
  *   - rotl32/rotl64: 32位/64位数字向左循环移位
  *   - rotr32/rotr64: 32位/64位数字向右循环移位
+ *   - rotl8/rotr8/rotl16/rotr16/rotl: 8位、16位和任意位宽的循环移位
+ *   - popcount32/popcount64/clz32/clz64/ctz32/ctz64: 计算1的个数、前导0和末尾0的个数
+ *   - bswap16/bswap32/bswap64/reverseBits32/reverseBits64: 交换字节顺序和反转位顺序
+ *   - add32/sub32/mul32/neg32/shl32/shr32: 结果对2^32取模的32位运算
+ *   - add64Pair/xor64Pair/shl64Pair/rotl64Pair等: 不使用BigInt，以[高32位, 低32位]表示的64位运算
  *   
- * 4. BigInt操作：
- *   - bigIntBytes: 将BigInt转换为字节数组
+ * 9. BigInt操作：
+ *   - bigIntBytes: 将BigInt转换为字节数组，支持固定字节数、字节序和二进制补码
  *   - bigIntFromBytes: 从字节数组中还原BigInt值
  * 
  * 使用这个库可以方便地进行二进制数据处理、字节转换、位操作等底层操作，
@@ -33,10 +73,143 @@ export { bigEndian, littleEndian } from "./uint.js";
 export type { ByteOrder } from "./uint.js";
 
 // 导出字节操作相关组件
-export { compareBytes, concatenateBytes, DynamicBuffer } from "./bytes.js";
+export {
+	andBytes,
+	andBytesInto,
+	binarySearchBytes,
+	BufferCapacityError,
+	compareBytes,
+	compareBytesConstantTime,
+	compareBytesOrder,
+	concatenateBytes,
+	concatenateBytesInto,
+	conditionalCopy,
+	conditionalSwap,
+	DynamicBuffer,
+	endsWithBytes,
+	equalBytesConstantTime,
+	includesBytes,
+	indexOfBytes,
+	lastIndexOfBytes,
+	notBytes,
+	notBytesInto,
+	orBytes,
+	orBytesInto,
+	SegmentedBuffer,
+	select,
+	sortBytes,
+	splitBytes,
+	startsWithBytes,
+	xorBytes,
+	xorBytesInto
+} from "./bytes.js";
+export type { DynamicBufferOptions, WriteTarget } from "./bytes.js";
+
+// 导出二进制读写相关组件
+export { BinaryReader } from "./reader.js";
+export { BinaryWriter } from "./writer.js";
+export { BitReader, BitWriter } from "./bitstream.js";
+export type { BitOrder } from "./bitstream.js";
+
+// 导出变长整数相关组件
+export {
+	decodeBigVarint,
+	decodeVarint,
+	encodeQuicVarint,
+	encodeVarint,
+	putQuicVarint,
+	readBigQuicVarint,
+	readQuicVarint,
+	VarintError,
+	writeVarint,
+	zigzagDecode,
+	zigzagEncode
+} from "./varint.js";
+export type { QuicVarintSize, VarintMode } from "./varint.js";
+
+// 导出带长度前缀的字节向量相关函数
+export { decodeVector, encodeVector, writeVector } from "./vector.js";
+export type { VectorOptions, VectorPrefixSize } from "./vector.js";
+
+// 导出ASN.1 DER相关组件
+export {
+	decodeDER,
+	decodeDERBitString,
+	decodeDERBoolean,
+	decodeDERChildren,
+	decodeDERElement,
+	decodeDERInteger,
+	decodeDERNull,
+	decodeDERObjectIdentifier,
+	decodeDEROctetString,
+	decodeDERSequence,
+	DERError,
+	encodeDERBitString,
+	encodeDERBoolean,
+	encodeDERElement,
+	encodeDERInteger,
+	encodeDERNull,
+	encodeDERObjectIdentifier,
+	encodeDEROctetString,
+	encodeDERSequence
+} from "./der.js";
+export type { DERClass, DERElement } from "./der.js";
+
+// 导出CBOR相关组件
+export {
+	CBORError,
+	CBORSimpleValue,
+	CBORTag,
+	decodeCBOR,
+	encodeCBOR,
+	writeCBOR,
+	writeCBORBreak,
+	writeCBORIndefinite
+} from "./cbor.js";
+export type { CBORIndefiniteType, CBOROptions, CBORValue } from "./cbor.js";
 
 // 导出位操作相关函数
-export { rotl32, rotr32, rotl64, rotr64 } from "./bits.js";
+export {
+	rotl32,
+	rotr32,
+	rotl64,
+	rotr64,
+	rotl8,
+	rotr8,
+	rotl16,
+	rotr16,
+	rotl,
+	popcount32,
+	popcount64,
+	clz32,
+	clz64,
+	ctz32,
+	ctz64,
+	bswap16,
+	bswap32,
+	bswap64,
+	reverseBits32,
+	reverseBits64,
+	add32,
+	sub32,
+	mul32,
+	neg32,
+	shl32,
+	shr32,
+	uint64PairFromBigInt,
+	bigIntFromUint64Pair,
+	add64Pair,
+	xor64Pair,
+	and64Pair,
+	or64Pair,
+	not64Pair,
+	shl64Pair,
+	shr64Pair,
+	rotl64Pair,
+	rotr64Pair
+} from "./bits.js";
+export type { Uint64Pair } from "./bits.js";
 
 // 导出BigInt相关函数
 export { bigIntBytes, bigIntFromBytes } from "./big.js";
+export type { BigIntBytesOptions, BigIntFromBytesOptions } from "./big.js";
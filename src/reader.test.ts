@@ -0,0 +1,105 @@
+/**
+ * reader.test.ts - reader.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/reader.ts` 中 `BinaryReader` 类的单元测试。
+ * 测试的目的是确保读取器能够按顺序读取字段、正确地维护当前位置，
+ * 并且在字节数不足时抛出与 `ByteOrder` 相同的错误。
+ */
+import { describe, expect, test } from "vitest";
+import { BinaryReader } from "./reader.js";
+import { bigEndian, littleEndian } from "./uint.js";
+
+describe("BinaryReader", () => {
+	// 测试按顺序读取整数，位置会自动向前移动
+	test("BinaryReader.readUint8/16/32/64()", () => {
+		const data = new Uint8Array([
+			0x01, 0x01, 0x02, 0xff, 0x00, 0x00, 0x01, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08
+		]);
+		const reader = new BinaryReader(data, bigEndian);
+		expect(reader.readUint8()).toBe(0x01);
+		expect(reader.readUint16()).toBe(0x0102);
+		// 最高位为1的32位整数也应该是正数
+		expect(reader.readUint32()).toBe(0xff000001);
+		expect(reader.readUint64()).toBe(0x0102030405060708n);
+		expect(reader.position).toBe(15);
+		expect(reader.remaining).toBe(0);
+	});
+
+	// 测试使用小端序读取
+	test("小端序", () => {
+		const reader = new BinaryReader(
+			new Uint8Array([0x02, 0x01, 0x04, 0x03, 0x02, 0x01]),
+			littleEndian
+		);
+		expect(reader.readUint16()).toBe(0x0102);
+		expect(reader.readUint32()).toBe(0x01020304);
+	});
+
+	// 测试字节数不足时抛出错误，并且位置保持不变
+	test("字节数不足", () => {
+		const reader = new BinaryReader(new Uint8Array([0x01, 0x02, 0x03]), bigEndian);
+		reader.readUint8();
+		expect(() => reader.readUint32()).toThrowError("Insufficient bytes");
+		expect(() => reader.readBytes(3)).toThrowError("Insufficient bytes");
+		expect(() => reader.skip(3)).toThrowError("Insufficient bytes");
+		expect(reader.position).toBe(1);
+		expect(reader.readUint16()).toBe(0x0203);
+		expect(() => reader.readUint8()).toThrowError("Insufficient bytes");
+	});
+
+	// 测试 readBytes() 返回视图，peek() 不移动位置
+	test("BinaryReader.readBytes()/peek()", () => {
+		const data = new Uint8Array([0x01, 0x02, 0x03, 0x04]);
+		const reader = new BinaryReader(data, bigEndian);
+		expect(reader.peek(2)).toStrictEqual(new Uint8Array([0x01, 0x02]));
+		expect(reader.position).toBe(0);
+		const bytes = reader.readBytes(3);
+		expect(bytes).toStrictEqual(new Uint8Array([0x01, 0x02, 0x03]));
+		// 返回的是原数组的视图
+		expect(bytes.buffer).toBe(data.buffer);
+		expect(reader.remaining).toBe(1);
+		expect(reader.readBytes(0)).toStrictEqual(new Uint8Array(0));
+	});
+
+	// 测试 skip() 和 seek()
+	test("BinaryReader.skip()/seek()", () => {
+		const reader = new BinaryReader(new Uint8Array([0x01, 0x02, 0x03, 0x04]), bigEndian);
+		reader.skip(2);
+		expect(reader.readUint8()).toBe(0x03);
+		reader.seek(0);
+		expect(reader.readUint8()).toBe(0x01);
+		reader.seek(4);
+		expect(reader.remaining).toBe(0);
+		expect(() => reader.seek(5)).toThrowError("Invalid position");
+		expect(() => reader.seek(-1)).toThrowError("Invalid position");
+	});
+
+	// 测试字节数不是非负整数时抛出错误，并且不移动当前位置
+	test("无效的字节数", () => {
+		const reader = new BinaryReader(new Uint8Array([0x01, 0x02, 0x03, 0x04]), bigEndian);
+		for (const size of [NaN, 1.5, -1, Infinity]) {
+			expect(() => reader.skip(size)).toThrowError("Invalid size");
+			expect(() => reader.peek(size)).toThrowError("Invalid size");
+			expect(() => reader.readBytes(size)).toThrowError("Invalid size");
+			expect(() => reader.subReader(size)).toThrowError("Invalid size");
+		}
+		expect(reader.position).toBe(0);
+		expect(reader.readUint32()).toBe(0x01020304);
+	});
+
+	// 测试子读取器只能读取指定长度的数据
+	test("BinaryReader.subReader()", () => {
+		// [长度=2][0x01, 0x02][0x03]
+		const reader = new BinaryReader(new Uint8Array([0x00, 0x02, 0x01, 0x02, 0x03]), bigEndian);
+		const record = reader.subReader(reader.readUint16());
+		expect(reader.position).toBe(4);
+		expect(record.position).toBe(0);
+		expect(record.remaining).toBe(2);
+		expect(record.readUint8()).toBe(0x01);
+		// 子读取器不能读取到范围之外
+		expect(() => record.readUint16()).toThrowError("Insufficient bytes");
+		expect(record.readUint8()).toBe(0x02);
+		expect(reader.readUint8()).toBe(0x03);
+		expect(() => reader.subReader(1)).toThrowError("Insufficient bytes");
+	});
+});
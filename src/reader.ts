@@ -0,0 +1,208 @@
+/**
+ * reader.ts - 基于游标的二进制读取器
+ * 
+ * 使用ByteOrder解析二进制数据时，每读取一个字段都需要手动维护偏移量：
+ * 
+ * const type = bigEndian.uint8(data, offset);
+ * offset += 1;
+ * const length = bigEndian.uint16(data, offset);
+ * offset += 2;
+ * 
+ * 这种手动记录偏移量的方式很容易出现差一(off-by-one)错误。
+ * BinaryReader内部维护一个"游标"(当前位置)，每次读取后自动向前移动，
+ * 这样解析代码只需要按顺序描述字段即可。
+ */
+
+import type { ByteOrder } from "./uint.js";
+
+/**
+ * 二进制读取器类
+ * 
+ * 包装一个Uint8Array和一个ByteOrder，并记录当前读取的位置。
+ * 所有读取方法在字节数不足时都会抛出与ByteOrder相同的TypeError("Insufficient bytes")，
+ * 并且出错时不会移动当前位置。
+ * 
+ * 应用场景：解析网络协议消息、二进制文件头、嵌套的TLV(类型-长度-值)记录等。
+ */
+export class BinaryReader {
+	/**
+	 * 要读取的字节数组
+	 */
+	private data: Uint8Array;
+
+	/**
+	 * 读取多字节整数时使用的字节序
+	 */
+	private byteOrder: ByteOrder;
+
+	/**
+	 * 当前读取位置(相对于data的开头)
+	 */
+	private offset = 0;
+
+	/**
+	 * 创建一个新的二进制读取器
+	 * 
+	 * @param data 要读取的字节数组
+	 * @param byteOrder 字节序(bigEndian或littleEndian)
+	 */
+	constructor(data: Uint8Array, byteOrder: ByteOrder) {
+		this.data = data;
+		this.byteOrder = byteOrder;
+	}
+
+	/**
+	 * 当前读取位置
+	 */
+	public get position(): number {
+		return this.offset;
+	}
+
+	/**
+	 * 剩余未读取的字节数
+	 */
+	public get remaining(): number {
+		return this.data.byteLength - this.offset;
+	}
+
+	/**
+	 * 读取8位无符号整数并将位置向前移动1个字节
+	 * 
+	 * @returns 8位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public readUint8(): number {
+		const value = this.byteOrder.uint8(this.data, this.offset);
+		this.offset += 1;
+		return value;
+	}
+
+	/**
+	 * 读取16位无符号整数并将位置向前移动2个字节
+	 * 
+	 * @returns 16位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public readUint16(): number {
+		const value = this.byteOrder.uint16(this.data, this.offset);
+		this.offset += 2;
+		return value;
+	}
+
+	/**
+	 * 读取32位无符号整数并将位置向前移动4个字节
+	 * 
+	 * @returns 32位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public readUint32(): number {
+		// ByteOrder.uint32()的结果是位运算得到的32位有符号整数，>>> 0 将其转换为无符号整数
+		const value = this.byteOrder.uint32(this.data, this.offset) >>> 0;
+		this.offset += 4;
+		return value;
+	}
+
+	/**
+	 * 读取64位无符号整数并将位置向前移动8个字节
+	 * 
+	 * @returns 64位无符号整数(BigInt类型)
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public readUint64(): bigint {
+		const value = this.byteOrder.uint64(this.data, this.offset);
+		this.offset += 8;
+		return value;
+	}
+
+	/**
+	 * 读取指定数量的字节并将位置向前移动
+	 * 
+	 * 返回的是原数组的视图(subarray)，不会复制数据。
+	 * 修改返回的数组会同时修改原数组，如果需要独立的副本，请调用slice()。
+	 * 
+	 * @param size 要读取的字节数
+	 * @returns 读取到的字节
+	 * @throws 如果字节数不是非负整数或者字节数不足，抛出TypeError
+	 */
+	public readBytes(size: number): Uint8Array {
+		const bytes = this.peek(size);
+		this.offset += size;
+		return bytes;
+	}
+
+	/**
+	 * 读取指定数量的字节，但不移动当前位置
+	 * 
+	 * 与readBytes()一样，返回的是原数组的视图。
+	 * 
+	 * @param size 要读取的字节数
+	 * @returns 读取到的字节
+	 * @throws 如果字节数不是非负整数或者字节数不足，抛出TypeError
+	 */
+	public peek(size: number): Uint8Array {
+		this.checkSize(size);
+		return this.data.subarray(this.offset, this.offset + size);
+	}
+
+	/**
+	 * 跳过指定数量的字节
+	 * 
+	 * @param size 要跳过的字节数
+	 * @throws 如果字节数不是非负整数或者字节数不足，抛出TypeError
+	 */
+	public skip(size: number): void {
+		this.checkSize(size);
+		this.offset += size;
+	}
+
+	/**
+	 * 将当前位置移动到指定的绝对位置
+	 * 
+	 * 位置可以等于数据的长度(表示所有数据都已读取)，但不能超过它。
+	 * 
+	 * @param position 新的位置
+	 * @throws 如果位置超出范围，抛出TypeError
+	 */
+	public seek(position: number): void {
+		if (!Number.isInteger(position) || position < 0 || position > this.data.byteLength) {
+			throw new TypeError("Invalid position");
+		}
+		this.offset = position;
+	}
+
+	/**
+	 * 创建一个只能读取接下来指定数量字节的子读取器，并将当前位置移动到这些字节之后
+	 * 
+	 * 子读取器使用相同的字节序，位置从0开始。
+	 * 这适合解析嵌套的记录：外层记录声明了内层记录的长度后，
+	 * 内层的解析代码就不可能读取到内层记录之外的数据。
+	 * 
+	 * 例如：
+	 * const length = reader.readUint16();
+	 * const record = reader.subReader(length);
+	 * 
+	 * @param size 子读取器可以读取的字节数
+	 * @returns 新的BinaryReader
+	 * @throws 如果字节数不是非负整数或者字节数不足，抛出TypeError
+	 */
+	public subReader(size: number): BinaryReader {
+		return new BinaryReader(this.readBytes(size), this.byteOrder);
+	}
+
+	/**
+	 * 检查字节数是否有效并且剩余的字节足够
+	 * 
+	 * 与seek()一样拒绝不是整数的值，否则NaN或小数会被加到当前位置上，破坏之后所有的读取。
+	 * 
+	 * @param size 字节数
+	 * @throws 如果字节数不是非负整数，或者字节数不足，抛出TypeError
+	 */
+	private checkSize(size: number): void {
+		if (!Number.isInteger(size) || size < 0) {
+			throw new TypeError("Invalid size");
+		}
+		if (this.remaining < size) {
+			throw new TypeError("Insufficient bytes");
+		}
+	}
+}
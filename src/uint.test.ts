@@ -10,6 +10,7 @@
  */
 import { expect, test } from "vitest";
 import { bigEndian, littleEndian } from "./uint.js";
+import { uint64PairFromBigInt } from "./bits.js";
 import { describe } from "vitest";
 
 // --- 测试大端序 (Big-Endian) --- 
@@ -244,6 +245,74 @@ describe("bigEndian", () => {
 			expect(() => bigEndian.putUint64(data, 0x0102030405060708n, 1)).toThrow();
 		});
 	});
+	// 测试读取有符号整数 (大端序，二进制补码)
+	describe("bigEndian.int8/int16/int32/int64", () => {
+		test("返回正确的值", () => {
+			expect(bigEndian.int8(new Uint8Array([0x7f]), 0)).toBe(127);
+			expect(bigEndian.int8(new Uint8Array([0x80]), 0)).toBe(-128);
+			expect(bigEndian.int16(new Uint8Array([0xff, 0xfe]), 0)).toBe(-2);
+			expect(bigEndian.int16(new Uint8Array([0x01, 0x02]), 0)).toBe(0x0102);
+			expect(bigEndian.int32(new Uint8Array([0xff, 0xff, 0xff, 0xfe]), 0)).toBe(-2);
+			expect(bigEndian.int32(new Uint8Array([0x80, 0, 0, 0]), 0)).toBe(-2147483648);
+			expect(
+				bigEndian.int64(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xfe]), 0)
+			).toBe(-2n);
+			expect(bigEndian.int64(new Uint8Array([0x80, 0, 0, 0, 0, 0, 0, 0]), 0)).toBe(
+				-9223372036854775808n
+			);
+		});
+		// 测试使用偏移量
+		test("偏移量", () => {
+			expect(bigEndian.int16(new Uint8Array([0, 0xff, 0xfe]), 1)).toBe(-2);
+		});
+		// 测试错误情况：字节数不足，错误信息与无符号版本一致
+		test("字节数不足", () => {
+			expect(() => bigEndian.int8(new Uint8Array([]), 0)).toThrowError("Insufficient bytes");
+			expect(() => bigEndian.int16(new Uint8Array([1, 2]), 1)).toThrowError("Insufficient bytes");
+			expect(() => bigEndian.int32(new Uint8Array([1, 2, 3]), 0)).toThrowError(
+				"Insufficient bytes"
+			);
+			expect(() => bigEndian.int64(new Uint8Array(8), 1)).toThrowError("Insufficient bytes");
+		});
+	});
+
+	// 测试写入有符号整数 (大端序)
+	describe("bigEndian.putInt8/putInt16/putInt32/putInt64", () => {
+		test("写入正确的值", () => {
+			const data = new Uint8Array(8);
+			bigEndian.putInt8(data, -128, 0);
+			expect(data.subarray(0, 1)).toStrictEqual(new Uint8Array([0x80]));
+			bigEndian.putInt16(data, -2, 0);
+			expect(data.subarray(0, 2)).toStrictEqual(new Uint8Array([0xff, 0xfe]));
+			bigEndian.putInt32(data, -2, 0);
+			expect(data.subarray(0, 4)).toStrictEqual(new Uint8Array([0xff, 0xff, 0xff, 0xfe]));
+			bigEndian.putInt64(data, -2n, 0);
+			expect(data).toStrictEqual(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xfe]));
+		});
+		// 测试写入后再读取能得到原值
+		test("往返转换", () => {
+			const data = new Uint8Array(9);
+			bigEndian.putInt32(data, -123456789, 1);
+			expect(bigEndian.int32(data, 1)).toBe(-123456789);
+			bigEndian.putInt64(data, 9223372036854775807n, 1);
+			expect(bigEndian.int64(data, 1)).toBe(9223372036854775807n);
+		});
+		// 测试错误情况：超出取值范围
+		test("无效的值", () => {
+			const data = new Uint8Array(8);
+			expect(() => bigEndian.putInt8(data, 128, 0)).toThrowError("Invalid int8 value");
+			expect(() => bigEndian.putInt16(data, -32769, 0)).toThrowError("Invalid int16 value");
+			expect(() => bigEndian.putInt32(data, 2147483648, 0)).toThrowError("Invalid int32 value");
+			expect(() => bigEndian.putInt64(data, -9223372036854775809n, 0)).toThrowError(
+				"Invalid int64 value"
+			);
+		});
+		// 测试错误情况：空间不足
+		test("空间不足", () => {
+			expect(() => bigEndian.putInt16(new Uint8Array(2), -1, 1)).toThrow();
+			expect(() => bigEndian.putInt64(new Uint8Array(7), -1n, 0)).toThrow();
+		});
+	});
 });
 
 describe("littleEndian", () => {
@@ -469,4 +538,246 @@ describe("littleEndian", () => {
 			expect(() => littleEndian.putUint64(data, 0x0102030405060708n, 1)).toThrow();
 		});
 	});
+
+	// 测试读取有符号整数 (小端序，二进制补码)
+	describe("littleEndian.int8/int16/int32/int64", () => {
+		test("返回正确的值", () => {
+			expect(littleEndian.int8(new Uint8Array([0x7f]), 0)).toBe(127);
+			expect(littleEndian.int8(new Uint8Array([0x80]), 0)).toBe(-128);
+			expect(littleEndian.int16(new Uint8Array([0xfe, 0xff]), 0)).toBe(-2);
+			expect(littleEndian.int16(new Uint8Array([0x02, 0x01]), 0)).toBe(0x0102);
+			expect(littleEndian.int32(new Uint8Array([0xfe, 0xff, 0xff, 0xff]), 0)).toBe(-2);
+			expect(littleEndian.int32(new Uint8Array([0, 0, 0, 0x80]), 0)).toBe(-2147483648);
+			expect(
+				littleEndian.int64(new Uint8Array([0xfe, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]), 0)
+			).toBe(-2n);
+			expect(littleEndian.int64(new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0x80]), 0)).toBe(
+				-9223372036854775808n
+			);
+		});
+		// 测试使用偏移量
+		test("偏移量", () => {
+			expect(littleEndian.int16(new Uint8Array([0, 0xfe, 0xff]), 1)).toBe(-2);
+		});
+		// 测试错误情况：字节数不足，错误信息与无符号版本一致
+		test("字节数不足", () => {
+			expect(() => littleEndian.int8(new Uint8Array([]), 0)).toThrowError("Insufficient bytes");
+			expect(() => littleEndian.int16(new Uint8Array([1, 2]), 1)).toThrowError(
+				"Insufficient bytes"
+			);
+			expect(() => littleEndian.int32(new Uint8Array([1, 2, 3]), 0)).toThrowError(
+				"Insufficient bytes"
+			);
+			expect(() => littleEndian.int64(new Uint8Array(8), 1)).toThrowError("Insufficient bytes");
+		});
+	});
+
+	// 测试写入有符号整数 (小端序)
+	describe("littleEndian.putInt8/putInt16/putInt32/putInt64", () => {
+		test("写入正确的值", () => {
+			const data = new Uint8Array(8);
+			littleEndian.putInt8(data, -128, 0);
+			expect(data.subarray(0, 1)).toStrictEqual(new Uint8Array([0x80]));
+			littleEndian.putInt16(data, -2, 0);
+			expect(data.subarray(0, 2)).toStrictEqual(new Uint8Array([0xfe, 0xff]));
+			littleEndian.putInt32(data, -2, 0);
+			expect(data.subarray(0, 4)).toStrictEqual(new Uint8Array([0xfe, 0xff, 0xff, 0xff]));
+			littleEndian.putInt64(data, -2n, 0);
+			expect(data).toStrictEqual(new Uint8Array([0xfe, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]));
+		});
+		// 测试写入后再读取能得到原值
+		test("往返转换", () => {
+			const data = new Uint8Array(9);
+			littleEndian.putInt32(data, -123456789, 1);
+			expect(littleEndian.int32(data, 1)).toBe(-123456789);
+			littleEndian.putInt64(data, 9223372036854775807n, 1);
+			expect(littleEndian.int64(data, 1)).toBe(9223372036854775807n);
+		});
+		// 测试错误情况：超出取值范围
+		test("无效的值", () => {
+			const data = new Uint8Array(8);
+			expect(() => littleEndian.putInt8(data, 128, 0)).toThrowError("Invalid int8 value");
+			expect(() => littleEndian.putInt16(data, -32769, 0)).toThrowError("Invalid int16 value");
+			expect(() => littleEndian.putInt32(data, 2147483648, 0)).toThrowError("Invalid int32 value");
+			expect(() => littleEndian.putInt64(data, -9223372036854775809n, 0)).toThrowError(
+				"Invalid int64 value"
+			);
+		});
+		// 测试错误情况：空间不足
+		test("空间不足", () => {
+			expect(() => littleEndian.putInt16(new Uint8Array(2), -1, 1)).toThrow();
+			expect(() => littleEndian.putInt64(new Uint8Array(7), -1n, 0)).toThrow();
+		});
+	});
+});
+
+describe("浮点数", () => {
+	// 测试半精度浮点数的读取 (大端序)
+	test("bigEndian.float16()", () => {
+		expect(bigEndian.float16(new Uint8Array([0x3c, 0x00]), 0)).toBe(1);
+		expect(bigEndian.float16(new Uint8Array([0xc0, 0x00]), 0)).toBe(-2);
+		// 最大的有限值
+		expect(bigEndian.float16(new Uint8Array([0x7b, 0xff]), 0)).toBe(65504);
+		// 最小的非规格化数
+		expect(bigEndian.float16(new Uint8Array([0x00, 0x01]), 0)).toBe(2 ** -24);
+		expect(bigEndian.float16(new Uint8Array([0x7c, 0x00]), 0)).toBe(Infinity);
+		expect(bigEndian.float16(new Uint8Array([0xfc, 0x00]), 0)).toBe(-Infinity);
+		expect(Object.is(bigEndian.float16(new Uint8Array([0x80, 0x00]), 0), -0)).toBe(true);
+		expect(bigEndian.float16(new Uint8Array([0x7e, 0x00]), 0)).toBeNaN();
+		expect(() => bigEndian.float16(new Uint8Array([0x3c]), 0)).toThrowError("Insufficient bytes");
+	});
+
+	// 测试半精度浮点数的写入，包括舍入
+	test("bigEndian.putFloat16()", () => {
+		const data = new Uint8Array(2);
+		const put = (value: number): number => {
+			bigEndian.putFloat16(data, value, 0);
+			return bigEndian.uint16(data, 0);
+		};
+		expect(put(1)).toBe(0x3c00);
+		expect(put(-0)).toBe(0x8000);
+		expect(put(65504)).toBe(0x7bff);
+		expect(put(2 ** -24)).toBe(0x0001);
+		expect(put(-Infinity)).toBe(0xfc00);
+		// 1 + 2^-11 正好在 1 和 1 + 2^-10 中间，平局取偶
+		expect(put(1 + 2 ** -11)).toBe(0x3c00);
+		expect(put(1 + 3 * 2 ** -11)).toBe(0x3c02);
+		// 65520 及以上舍入为无穷大
+		expect(put(65519)).toBe(0x7bff);
+		expect(put(65520)).toBe(0x7c00);
+		// 小于最小非规格化数一半的值舍入为0
+		expect(put(2 ** -26)).toBe(0x0000);
+		// 最大的非规格化数进位为最小的规格化数
+		expect(put(2 ** -14 - 2 ** -26)).toBe(0x0400);
+		expect(() => bigEndian.putFloat16(new Uint8Array(1), 1, 0)).toThrow();
+	});
+
+	// 测试NaN的payload在读写之间被保留
+	test("NaN payload", () => {
+		const half = new Uint8Array([0x7d, 0x01]);
+		const halfResult = new Uint8Array(2);
+		bigEndian.putFloat16(halfResult, bigEndian.float16(half, 0), 0);
+		expect(halfResult).toStrictEqual(half);
+
+		const single = new Uint8Array([0xff, 0x80, 0x00, 0x01]);
+		const singleResult = new Uint8Array(4);
+		bigEndian.putFloat32(singleResult, bigEndian.float32(single, 0), 0);
+		expect(singleResult).toStrictEqual(single);
+
+		const double = new Uint8Array([0x7f, 0xf0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01]);
+		const doubleResult = new Uint8Array(8);
+		bigEndian.putFloat64(doubleResult, bigEndian.float64(double, 0), 0);
+		expect(doubleResult).toStrictEqual(double);
+	});
+
+	// 测试单精度和双精度浮点数
+	test("float32/float64", () => {
+		expect(bigEndian.float32(new Uint8Array([0x3f, 0xc0, 0x00, 0x00]), 0)).toBe(1.5);
+		expect(littleEndian.float32(new Uint8Array([0x00, 0x00, 0xc0, 0x3f]), 0)).toBe(1.5);
+		expect(
+			bigEndian.float64(new Uint8Array([0x40, 0x09, 0x21, 0xfb, 0x54, 0x44, 0x2d, 0x18]), 0)
+		).toBe(Math.PI);
+		expect(
+			littleEndian.float64(new Uint8Array([0x18, 0x2d, 0x44, 0x54, 0xfb, 0x21, 0x09, 0x40]), 0)
+		).toBe(Math.PI);
+
+		const data = new Uint8Array(9);
+		littleEndian.putFloat64(data, Math.PI, 1);
+		expect(data).toStrictEqual(
+			new Uint8Array([0x00, 0x18, 0x2d, 0x44, 0x54, 0xfb, 0x21, 0x09, 0x40])
+		);
+		bigEndian.putFloat32(data, 0.1, 0);
+		// 0.1 无法被精确表示，会被舍入为最接近的单精度浮点数
+		expect(bigEndian.float32(data, 0)).toBe(Math.fround(0.1));
+		littleEndian.putFloat16(data, -2, 0);
+		expect(data.subarray(0, 2)).toStrictEqual(new Uint8Array([0x00, 0xc0]));
+
+		expect(() => littleEndian.float64(new Uint8Array(8), 1)).toThrowError("Insufficient bytes");
+		expect(() => littleEndian.putFloat32(new Uint8Array(3), 1, 0)).toThrow();
+	});
+});
+
+describe("任意位宽的无符号整数", () => {
+	// 测试24位和48位无符号整数的读取
+	test("uint24()/uint48()", () => {
+		expect(bigEndian.uint24(new Uint8Array([0x01, 0x02, 0x03]), 0)).toBe(0x010203);
+		expect(littleEndian.uint24(new Uint8Array([0x03, 0x02, 0x01]), 0)).toBe(0x010203);
+		expect(bigEndian.uint24(new Uint8Array([0, 0xff, 0xff, 0xff]), 1)).toBe(0xffffff);
+		expect(bigEndian.uint48(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xfe]), 0)).toBe(
+			0xfffffffffffe
+		);
+		expect(littleEndian.uint48(new Uint8Array([0x06, 0x05, 0x04, 0x03, 0x02, 0x01]), 0)).toBe(
+			0x010203040506
+		);
+		expect(() => bigEndian.uint24(new Uint8Array(3), 1)).toThrowError("Insufficient bytes");
+		expect(() => littleEndian.uint48(new Uint8Array(5), 0)).toThrowError("Insufficient bytes");
+	});
+
+	// 测试24位和48位无符号整数的写入
+	test("putUint24()/putUint48()", () => {
+		const data = new Uint8Array(7);
+		bigEndian.putUint24(data, 0x010203, 1);
+		expect(data.subarray(0, 4)).toStrictEqual(new Uint8Array([0, 0x01, 0x02, 0x03]));
+		littleEndian.putUint24(data, 0x010203, 0);
+		expect(data.subarray(0, 3)).toStrictEqual(new Uint8Array([0x03, 0x02, 0x01]));
+		bigEndian.putUint48(data, 0xfffffffffffe, 1);
+		expect(data).toStrictEqual(new Uint8Array([0x03, 0xff, 0xff, 0xff, 0xff, 0xff, 0xfe]));
+		littleEndian.putUint48(data, 0x010203040506, 0);
+		expect(data.subarray(0, 6)).toStrictEqual(new Uint8Array([0x06, 0x05, 0x04, 0x03, 0x02, 0x01]));
+		expect(() => bigEndian.putUint24(data, 0x1000000, 0)).toThrowError("Invalid uint24 value");
+		expect(() => littleEndian.putUint48(data, 2 ** 48, 0)).toThrowError("Invalid uint48 value");
+		expect(() => bigEndian.putUint24(new Uint8Array(3), 1, 1)).toThrow();
+		expect(() => littleEndian.putUint48(new Uint8Array(5), 1, 0)).toThrow();
+	});
+
+	// 测试任意字节数的无符号整数
+	test("uintN()/putUintN()", () => {
+		const bytes = new Uint8Array(16).map((_, i) => i + 1);
+		expect(bigEndian.uintN(bytes, 0, 16)).toBe(0x0102030405060708090a0b0c0d0e0f10n);
+		expect(littleEndian.uintN(bytes, 0, 16)).toBe(0x100f0e0d0c0b0a090807060504030201n);
+		expect(bigEndian.uintN(bytes, 13, 3)).toBe(0x0e0f10n);
+
+		const data = new Uint8Array(17);
+		bigEndian.putUintN(data, 0x0102030405060708090a0b0c0d0e0f10n, 1, 16);
+		expect(data.subarray(1)).toStrictEqual(bytes);
+		littleEndian.putUintN(data, 0x100f0e0d0c0b0a090807060504030201n, 0, 16);
+		expect(data.subarray(0, 16)).toStrictEqual(bytes);
+
+		expect(() => bigEndian.uintN(bytes, 1, 16)).toThrowError("Insufficient bytes");
+		expect(() => bigEndian.uintN(bytes, 0, 0)).toThrowError("Invalid byte length");
+		expect(() => bigEndian.putUintN(data, 1n << 128n, 0, 16)).toThrowError("Invalid uint128 value");
+		expect(() => littleEndian.putUintN(data, -1n, 0, 16)).toThrowError("Invalid uint128 value");
+		expect(() => littleEndian.putUintN(data, 1n, 2, 16)).toThrow();
+	});
+});
+
+// --- 测试以[高32位, 低32位]表示的64位无符号整数 ---
+describe("64位整数对", () => {
+	// 测试读写，结果应该与uint64()相同
+	test("uint64Pair()/putUint64Pair()", () => {
+		const bytes = new Uint8Array([0x01, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef]);
+		expect(bigEndian.uint64Pair(bytes, 0)).toStrictEqual([0x01234567, 0x89abcdef]);
+		expect(littleEndian.uint64Pair(bytes, 0)).toStrictEqual([0xefcdab89, 0x67452301]);
+		expect(bigEndian.uint64Pair(bytes, 0)).toStrictEqual(
+			uint64PairFromBigInt(bigEndian.uint64(bytes, 0))
+		);
+		expect(littleEndian.uint64Pair(bytes, 0)).toStrictEqual(
+			uint64PairFromBigInt(littleEndian.uint64(bytes, 0))
+		);
+
+		const data = new Uint8Array(9);
+		bigEndian.putUint64Pair(data, [0x01234567, 0x89abcdef], 1);
+		expect(data.subarray(1)).toStrictEqual(bytes);
+		littleEndian.putUint64Pair(data, [0xefcdab89, 0x67452301], 0);
+		expect(data.subarray(0, 8)).toStrictEqual(bytes);
+
+		expect(() => bigEndian.uint64Pair(bytes, 1)).toThrowError("Insufficient bytes");
+		expect(() => littleEndian.uint64Pair(bytes, 1)).toThrowError("Insufficient bytes");
+		expect(() => bigEndian.putUint64Pair(data, [0, 0], 2)).toThrow();
+		expect(() => littleEndian.putUint64Pair(data, [0, 0], 2)).toThrow();
+		expect(() => bigEndian.putUint64Pair(data, [2 ** 32, 0], 0)).toThrowError(
+			"Invalid uint64 value"
+		);
+		expect(() => littleEndian.putUint64Pair(data, [0, -1], 0)).toThrowError("Invalid uint64 value");
+	});
 });
@@ -13,8 +13,12 @@
  * 当在不同系统间传输数据或读写二进制文件时，了解并正确处理字节序非常重要。
  * 
  * 本模块提供了两种字节序的实现，以及用于二进制数据处理的工具函数。
+ * 除了无符号整数，也支持以二进制补码(two's complement)表示的有符号整数。
+ * 此外还支持IEEE 754标准的半精度、单精度和双精度浮点数。
  */
 
+import type { Uint64Pair } from "./bits.js";
+
 /**
  * 大端序(Big-Endian)实现类
  * 
@@ -191,6 +195,393 @@ class BigEndian implements ByteOrder {
 			target[offset + i] = Number((value >> BigInt((7 - i) * 8)) & 0xffn);
 		}
 	}
+	/**
+	 * 从字节数组中读取8位有符号整数(-128到127)
+	 * 
+	 * 有符号整数使用二进制补码(two's complement)表示：最高位为1时表示负数。
+	 * 例如：[0xff] 被解析为 -1，[0x80] 被解析为 -128
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 8位有符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int8(data: Uint8Array, offset: number): number {
+		// 先左移24位把符号位放到32位整数的最高位，再用算术右移(>>)扩展符号位
+		return (this.uint8(data, offset) << 24) >> 24;
+	}
+
+	/**
+	 * 从字节数组中读取16位有符号整数(-32768到32767)
+	 * 
+	 * 例如：[0xff, 0xfe] 被解析为 -2
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 16位有符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int16(data: Uint8Array, offset: number): number {
+		return (this.uint16(data, offset) << 16) >> 16;
+	}
+
+	/**
+	 * 从字节数组中读取32位有符号整数(-2147483648到2147483647)
+	 * 
+	 * 例如：[0xff, 0xff, 0xff, 0xfe] 被解析为 -2
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 32位有符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int32(data: Uint8Array, offset: number): number {
+		// | 0 会把结果转换为32位有符号整数
+		return this.uint32(data, offset) | 0;
+	}
+
+	/**
+	 * 从字节数组中读取64位有符号整数(-2^63到2^63-1)
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 64位有符号整数(BigInt类型)
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int64(data: Uint8Array, offset: number): bigint {
+		// BigInt.asIntN(64, x) 把x的低64位按二进制补码解释为有符号整数
+		return BigInt.asIntN(64, this.uint64(data, offset));
+	}
+
+	/**
+	 * 将8位有符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的8位有符号整数(-128到127)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt8(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 1) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < -128 || value > 127) {
+			throw new TypeError("Invalid int8 value");
+		}
+		// & 0xff 得到负数的二进制补码表示，例如 -1 => 0xff
+		this.putUint8(target, value & 0xff, offset);
+	}
+
+	/**
+	 * 将16位有符号整数写入字节数组
+	 * 
+	 * 例如：数字-2将被写入为[0xff, 0xfe]
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的16位有符号整数(-32768到32767)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt16(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 2) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < -32768 || value > 32767) {
+			throw new TypeError("Invalid int16 value");
+		}
+		this.putUint16(target, value & 0xffff, offset);
+	}
+
+	/**
+	 * 将32位有符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的32位有符号整数(-2147483648到2147483647)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt32(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 4) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < -2147483648 || value > 2147483647) {
+			throw new TypeError("Invalid int32 value");
+		}
+		// >>> 0 把有符号整数转换为对应的无符号表示
+		this.putUint32(target, value >>> 0, offset);
+	}
+
+	/**
+	 * 将64位有符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的64位有符号整数(BigInt类型)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt64(target: Uint8Array, value: bigint, offset: number): void {
+		if (target.length < offset + 8) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < -9223372036854775808n || value > 9223372036854775807n) {
+			throw new TypeError("Invalid int64 value");
+		}
+		// BigInt.asUintN(64, x) 得到负数的64位二进制补码表示
+		this.putUint64(target, BigInt.asUintN(64, value), offset);
+	}
+	/**
+	 * 从字节数组中读取16位半精度浮点数(IEEE 754 binary16)
+	 * 
+	 * 半精度浮点数由1位符号、5位指数和10位尾数组成，常见于CBOR等格式。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 浮点数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public float16(data: Uint8Array, offset: number): number {
+		return float16FromBits(this.uint16(data, offset));
+	}
+
+	/**
+	 * 从字节数组中读取32位单精度浮点数(IEEE 754 binary32)
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 浮点数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public float32(data: Uint8Array, offset: number): number {
+		return float32FromBits(this.uint32(data, offset) >>> 0);
+	}
+
+	/**
+	 * 从字节数组中读取64位双精度浮点数(IEEE 754 binary64)
+	 * 
+	 * 这就是JavaScript中number类型本身使用的格式。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 浮点数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public float64(data: Uint8Array, offset: number): number {
+		if (data.byteLength < offset + 8) {
+			throw new TypeError("Insufficient bytes");
+		}
+		// 大端序：高32位在前
+		return float64FromBits(this.uint32(data, offset) >>> 0, this.uint32(data, offset + 4) >>> 0);
+	}
+
+	/**
+	 * 将数字以16位半精度浮点数写入字节数组
+	 * 
+	 * 无法精确表示的值会按"就近舍入，平局取偶"(round half to even)的规则舍入，
+	 * 超出范围的值会变成无穷大。
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的数字
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足，抛出TypeError
+	 */
+	public putFloat16(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 2) {
+			throw new TypeError("Not enough space");
+		}
+		this.putUint16(target, float16Bits(value), offset);
+	}
+
+	/**
+	 * 将数字以32位单精度浮点数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的数字
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足，抛出TypeError
+	 */
+	public putFloat32(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 4) {
+			throw new TypeError("Not enough space");
+		}
+		this.putUint32(target, float32Bits(value), offset);
+	}
+
+	/**
+	 * 将数字以64位双精度浮点数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的数字
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足，抛出TypeError
+	 */
+	public putFloat64(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 8) {
+			throw new TypeError("Not enough space");
+		}
+		const [high, low] = float64Bits(value);
+		this.putUint32(target, high, offset);
+		this.putUint32(target, low, offset + 4);
+	}
+	/**
+	 * 从字节数组中读取24位无符号整数(0-16777215)
+	 * 
+	 * 例如TLS握手消息的长度字段就是24位的。
+	 * 例如：[0x01, 0x02, 0x03] 被解析为 0x010203
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 24位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public uint24(data: Uint8Array, offset: number): number {
+		if (data.byteLength < offset + 3) {
+			throw new TypeError("Insufficient bytes");
+		}
+		return (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+	}
+
+	/**
+	 * 从字节数组中读取48位无符号整数(0-281474976710655)
+	 * 
+	 * 48位整数仍在number能精确表示的范围(2^53-1)之内，所以不需要使用BigInt。
+	 * 例如UUIDv7中的毫秒时间戳就是48位的。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 48位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public uint48(data: Uint8Array, offset: number): number {
+		if (data.byteLength < offset + 6) {
+			throw new TypeError("Insufficient bytes");
+		}
+		// 位运算只能处理32位，所以高16位用乘法移到正确的位置
+		const high = (data[offset] << 8) | data[offset + 1];
+		const low = this.uint32(data, offset + 2) >>> 0;
+		return high * 0x100000000 + low;
+	}
+
+	/**
+	 * 从字节数组中读取任意字节数的无符号整数
+	 * 
+	 * 例如byteLength为16时读取128位无符号整数。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @param byteLength 整数的字节数
+	 * @returns 无符号整数(BigInt类型)
+	 * @throws 如果字节数不足或byteLength无效，抛出TypeError
+	 */
+	public uintN(data: Uint8Array, offset: number, byteLength: number): bigint {
+		if (!Number.isInteger(byteLength) || byteLength < 1) {
+			throw new TypeError("Invalid byte length");
+		}
+		if (data.byteLength < offset + byteLength) {
+			throw new TypeError("Insufficient bytes");
+		}
+		return bigIntFromHex(data, offset, byteLength, false);
+	}
+
+	/**
+	 * 将24位无符号整数写入字节数组
+	 * 
+	 * 例如：数字0x010203将被写入为[0x01, 0x02, 0x03]
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的24位无符号整数(0-16777215)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putUint24(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 3) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < 0 || value > 16777215) {
+			throw new TypeError("Invalid uint24 value");
+		}
+		target[offset] = value >> 16;
+		target[offset + 1] = (value >> 8) & 0xff;
+		target[offset + 2] = value & 0xff;
+	}
+
+	/**
+	 * 将48位无符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的48位无符号整数(0-281474976710655)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putUint48(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < offset + 6) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < 0 || value > 281474976710655) {
+			throw new TypeError("Invalid uint48 value");
+		}
+		// 高16位和低32位分开写入
+		this.putUint16(target, Math.floor(value / 0x100000000), offset);
+		this.putUint32(target, value % 0x100000000, offset + 2);
+	}
+
+	/**
+	 * 将任意字节数的无符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的无符号整数(BigInt类型)
+	 * @param offset 偏移位置
+	 * @param byteLength 整数的字节数
+	 * @throws 如果空间不足、byteLength无效或值无效，抛出TypeError
+	 */
+	public putUintN(target: Uint8Array, value: bigint, offset: number, byteLength: number): void {
+		if (!Number.isInteger(byteLength) || byteLength < 1) {
+			throw new TypeError("Invalid byte length");
+		}
+		if (target.length < offset + byteLength) {
+			throw new TypeError("Not enough space");
+		}
+		if (value < 0 || value >> BigInt(byteLength * 8) !== 0n) {
+			throw new TypeError(`Invalid uint${byteLength * 8} value`);
+		}
+		putBigIntHex(target, value, offset, byteLength, false);
+	}
+
+	/**
+	 * 从字节数组中读取64位无符号整数，以[高32位, 低32位]的形式返回
+	 * 
+	 * 与uint64()不同，不会创建BigInt，适合需要大量64位运算的场景。
+	 * 高32位在前，低32位在后
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns [高32位, 低32位]
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public uint64Pair(data: Uint8Array, offset: number): Uint64Pair {
+		if (data.byteLength < offset + 8) {
+			throw new TypeError("Insufficient bytes");
+		}
+		return [this.uint32(data, offset) >>> 0, this.uint32(data, offset + 4) >>> 0];
+	}
+
+	/**
+	 * 将以[高32位, 低32位]表示的64位无符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value [高32位, 低32位]
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putUint64Pair(target: Uint8Array, value: Uint64Pair, offset: number): void {
+		if (target.length < offset + 8) {
+			throw new TypeError("Not enough space");
+		}
+		if (value[0] < 0 || value[0] > 4294967295 || value[1] < 0 || value[1] > 4294967295) {
+			throw new TypeError("Invalid uint64 value");
+		}
+		this.putUint32(target, value[0], offset);
+		this.putUint32(target, value[1], offset + 4);
+	}
 }
 
 /**
@@ -369,13 +760,402 @@ class LittleEndian implements ByteOrder {
 			target[offset + i] = Number((value >> BigInt(i * 8)) & 0xffn);
 		}
 	}
-}
+	/**
+	 * 从字节数组中读取8位有符号整数(-128到127)
+	 * 
+	 * 有符号整数使用二进制补码(two's complement)表示：最高位为1时表示负数。
+	 * 例如：[0xff] 被解析为 -1，[0x80] 被解析为 -128
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 8位有符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int8(data: Uint8Array, offset: number): number {
+		// 先左移24位把符号位放到32位整数的最高位，再用算术右移(>>)扩展符号位
+		return (this.uint8(data, offset) << 24) >> 24;
+	}
 
-/**
- * 大端序实例
- * 用于以大端序(高位字节在前)读取和写入无符号整数
- */
-export const bigEndian = new BigEndian();
+	/**
+	 * 从字节数组中读取16位有符号整数(-32768到32767)
+	 * 
+	 * 例如：[0xfe, 0xff] 被解析为 -2
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 16位有符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int16(data: Uint8Array, offset: number): number {
+		return (this.uint16(data, offset) << 16) >> 16;
+	}
+
+	/**
+	 * 从字节数组中读取32位有符号整数(-2147483648到2147483647)
+	 * 
+	 * 例如：[0xfe, 0xff, 0xff, 0xff] 被解析为 -2
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 32位有符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int32(data: Uint8Array, offset: number): number {
+		// | 0 会把结果转换为32位有符号整数
+		return this.uint32(data, offset) | 0;
+	}
+
+	/**
+	 * 从字节数组中读取64位有符号整数(-2^63到2^63-1)
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 64位有符号整数(BigInt类型)
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public int64(data: Uint8Array, offset: number): bigint {
+		// BigInt.asIntN(64, x) 把x的低64位按二进制补码解释为有符号整数
+		return BigInt.asIntN(64, this.uint64(data, offset));
+	}
+
+	/**
+	 * 将8位有符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的8位有符号整数(-128到127)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt8(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 1 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < -128 || value > 127) {
+			throw new TypeError("Invalid int8 value");
+		}
+		// & 0xff 得到负数的二进制补码表示，例如 -1 => 0xff
+		this.putUint8(target, value & 0xff, offset);
+	}
+
+	/**
+	 * 将16位有符号整数写入字节数组
+	 * 
+	 * 例如：数字-2将被写入为[0xfe, 0xff]
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的16位有符号整数(-32768到32767)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt16(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 2 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < -32768 || value > 32767) {
+			throw new TypeError("Invalid int16 value");
+		}
+		this.putUint16(target, value & 0xffff, offset);
+	}
+
+	/**
+	 * 将32位有符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的32位有符号整数(-2147483648到2147483647)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt32(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 4 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < -2147483648 || value > 2147483647) {
+			throw new TypeError("Invalid int32 value");
+		}
+		// >>> 0 把有符号整数转换为对应的无符号表示
+		this.putUint32(target, value >>> 0, offset);
+	}
+
+	/**
+	 * 将64位有符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的64位有符号整数(BigInt类型)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putInt64(target: Uint8Array, value: bigint, offset: number): void {
+		if (target.length < 8 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < -9223372036854775808n || value > 9223372036854775807n) {
+			throw new TypeError("Invalid int64 value");
+		}
+		// BigInt.asUintN(64, x) 得到负数的64位二进制补码表示
+		this.putUint64(target, BigInt.asUintN(64, value), offset);
+	}
+	/**
+	 * 从字节数组中读取16位半精度浮点数(IEEE 754 binary16)
+	 * 
+	 * 半精度浮点数由1位符号、5位指数和10位尾数组成，常见于CBOR等格式。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 浮点数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public float16(data: Uint8Array, offset: number): number {
+		return float16FromBits(this.uint16(data, offset));
+	}
+
+	/**
+	 * 从字节数组中读取32位单精度浮点数(IEEE 754 binary32)
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 浮点数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public float32(data: Uint8Array, offset: number): number {
+		return float32FromBits(this.uint32(data, offset) >>> 0);
+	}
+
+	/**
+	 * 从字节数组中读取64位双精度浮点数(IEEE 754 binary64)
+	 * 
+	 * 这就是JavaScript中number类型本身使用的格式。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 浮点数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public float64(data: Uint8Array, offset: number): number {
+		if (data.byteLength < offset + 8) {
+			throw new TypeError("Insufficient bytes");
+		}
+		// 小端序：低32位在前
+		return float64FromBits(this.uint32(data, offset + 4) >>> 0, this.uint32(data, offset) >>> 0);
+	}
+
+	/**
+	 * 将数字以16位半精度浮点数写入字节数组
+	 * 
+	 * 无法精确表示的值会按"就近舍入，平局取偶"(round half to even)的规则舍入，
+	 * 超出范围的值会变成无穷大。
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的数字
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足，抛出TypeError
+	 */
+	public putFloat16(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 2 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		this.putUint16(target, float16Bits(value), offset);
+	}
+
+	/**
+	 * 将数字以32位单精度浮点数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的数字
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足，抛出TypeError
+	 */
+	public putFloat32(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 4 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		this.putUint32(target, float32Bits(value), offset);
+	}
+
+	/**
+	 * 将数字以64位双精度浮点数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的数字
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足，抛出TypeError
+	 */
+	public putFloat64(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 8 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		const [high, low] = float64Bits(value);
+		this.putUint32(target, low, offset);
+		this.putUint32(target, high, offset + 4);
+	}
+	/**
+	 * 从字节数组中读取24位无符号整数(0-16777215)
+	 * 
+	 * 例如TLS握手消息的长度字段就是24位的。
+	 * 例如：[0x03, 0x02, 0x01] 被解析为 0x010203
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 24位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public uint24(data: Uint8Array, offset: number): number {
+		if (data.byteLength < offset + 3) {
+			throw new TypeError("Insufficient bytes");
+		}
+		return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+	}
+
+	/**
+	 * 从字节数组中读取48位无符号整数(0-281474976710655)
+	 * 
+	 * 48位整数仍在number能精确表示的范围(2^53-1)之内，所以不需要使用BigInt。
+	 * 例如UUIDv7中的毫秒时间戳就是48位的。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns 48位无符号整数
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public uint48(data: Uint8Array, offset: number): number {
+		if (data.byteLength < offset + 6) {
+			throw new TypeError("Insufficient bytes");
+		}
+		// 位运算只能处理32位，所以高16位用乘法移到正确的位置
+		const low = this.uint32(data, offset) >>> 0;
+		const high = data[offset + 4] | (data[offset + 5] << 8);
+		return high * 0x100000000 + low;
+	}
+
+	/**
+	 * 从字节数组中读取任意字节数的无符号整数
+	 * 
+	 * 例如byteLength为16时读取128位无符号整数。
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @param byteLength 整数的字节数
+	 * @returns 无符号整数(BigInt类型)
+	 * @throws 如果字节数不足或byteLength无效，抛出TypeError
+	 */
+	public uintN(data: Uint8Array, offset: number, byteLength: number): bigint {
+		if (!Number.isInteger(byteLength) || byteLength < 1) {
+			throw new TypeError("Invalid byte length");
+		}
+		if (data.byteLength < offset + byteLength) {
+			throw new TypeError("Insufficient bytes");
+		}
+		// 小端序：从最后一个(最高位)字节开始读
+		return bigIntFromHex(data, offset, byteLength, true);
+	}
+
+	/**
+	 * 将24位无符号整数写入字节数组
+	 * 
+	 * 例如：数字0x010203将被写入为[0x03, 0x02, 0x01]
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的24位无符号整数(0-16777215)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putUint24(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 3 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < 0 || value > 16777215) {
+			throw new TypeError("Invalid uint24 value");
+		}
+		target[offset] = value & 0xff;
+		target[offset + 1] = (value >> 8) & 0xff;
+		target[offset + 2] = value >> 16;
+	}
+
+	/**
+	 * 将48位无符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的48位无符号整数(0-281474976710655)
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putUint48(target: Uint8Array, value: number, offset: number): void {
+		if (target.length < 6 + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < 0 || value > 281474976710655) {
+			throw new TypeError("Invalid uint48 value");
+		}
+		// 低32位和高16位分开写入
+		this.putUint32(target, value % 0x100000000, offset);
+		this.putUint16(target, Math.floor(value / 0x100000000), offset + 4);
+	}
+
+	/**
+	 * 将任意字节数的无符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value 要写入的无符号整数(BigInt类型)
+	 * @param offset 偏移位置
+	 * @param byteLength 整数的字节数
+	 * @throws 如果空间不足、byteLength无效或值无效，抛出TypeError
+	 */
+	public putUintN(target: Uint8Array, value: bigint, offset: number, byteLength: number): void {
+		if (!Number.isInteger(byteLength) || byteLength < 1) {
+			throw new TypeError("Invalid byte length");
+		}
+		if (target.length < byteLength + offset) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value < 0 || value >> BigInt(byteLength * 8) !== 0n) {
+			throw new TypeError(`Invalid uint${byteLength * 8} value`);
+		}
+		// 小端序：最低位字节写在最前面
+		putBigIntHex(target, value, offset, byteLength, true);
+	}
+
+	/**
+	 * 从字节数组中读取64位无符号整数，以[高32位, 低32位]的形式返回
+	 * 
+	 * 与uint64()不同，不会创建BigInt，适合需要大量64位运算的场景。
+	 * 低32位在前，高32位在后
+	 * 
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @returns [高32位, 低32位]
+	 * @throws 如果字节数不足，抛出TypeError
+	 */
+	public uint64Pair(data: Uint8Array, offset: number): Uint64Pair {
+		if (data.byteLength < offset + 8) {
+			throw new TypeError("Insufficient bytes");
+		}
+		return [this.uint32(data, offset + 4) >>> 0, this.uint32(data, offset) >>> 0];
+	}
+
+	/**
+	 * 将以[高32位, 低32位]表示的64位无符号整数写入字节数组
+	 * 
+	 * @param target 目标字节数组
+	 * @param value [高32位, 低32位]
+	 * @param offset 偏移位置
+	 * @throws 如果空间不足或值无效，抛出TypeError
+	 */
+	public putUint64Pair(target: Uint8Array, value: Uint64Pair, offset: number): void {
+		if (target.length < offset + 8) {
+			throw new TypeError("Insufficient space");
+		}
+		if (value[0] < 0 || value[0] > 4294967295 || value[1] < 0 || value[1] > 4294967295) {
+			throw new TypeError("Invalid uint64 value");
+		}
+		this.putUint32(target, value[0], offset + 4);
+		this.putUint32(target, value[1], offset);
+	}
+}
+
+/**
+ * 大端序实例
+ * 用于以大端序(高位字节在前)读取和写入无符号整数
+ */
+export const bigEndian = new BigEndian();
 
 /**
  * 小端序实例
@@ -450,4 +1230,404 @@ export interface ByteOrder {
 	 * @param offset 偏移位置
 	 */
 	putUint64(target: Uint8Array, value: bigint, offset: number): void;
+
+	/**
+	 * 从字节数组读取8位有符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	int8(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取16位有符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	int16(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取32位有符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	int32(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取64位有符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	int64(data: Uint8Array, offset: number): bigint;
+
+	/**
+	 * 将8位有符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putInt8(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将16位有符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putInt16(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将32位有符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putInt32(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将64位有符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putInt64(target: Uint8Array, value: bigint, offset: number): void;
+
+	/**
+	 * 从字节数组读取16位半精度浮点数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	float16(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取32位单精度浮点数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	float32(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取64位双精度浮点数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	float64(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 将数字以16位半精度浮点数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putFloat16(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将数字以32位单精度浮点数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putFloat32(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将数字以64位双精度浮点数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putFloat64(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 从字节数组读取24位无符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	uint24(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取48位无符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	uint48(data: Uint8Array, offset: number): number;
+
+	/**
+	 * 从字节数组读取任意字节数的无符号整数
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 * @param byteLength 整数的字节数
+	 */
+	uintN(data: Uint8Array, offset: number, byteLength: number): bigint;
+
+	/**
+	 * 将24位无符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putUint24(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将48位无符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putUint48(target: Uint8Array, value: number, offset: number): void;
+
+	/**
+	 * 将任意字节数的无符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 * @param byteLength 整数的字节数
+	 */
+	putUintN(target: Uint8Array, value: bigint, offset: number, byteLength: number): void;
+
+	/**
+	 * 从字节数组读取64位无符号整数，以[高32位, 低32位]的形式返回
+	 * @param data 源字节数组
+	 * @param offset 偏移位置
+	 */
+	uint64Pair(data: Uint8Array, offset: number): Uint64Pair;
+
+	/**
+	 * 将以[高32位, 低32位]表示的64位无符号整数写入字节数组
+	 * @param target 目标字节数组
+	 * @param value 要写入的值
+	 * @param offset 偏移位置
+	 */
+	putUint64Pair(target: Uint8Array, value: Uint64Pair, offset: number): void;
+}
+
+/**
+ * 任意字节数的BigInt与字节数组之间的转换
+ * 
+ * 每次移位8位、逐字节转换的方法中，每次移位都会复制整个BigInt，所以总时间与字节数的平方成正比。
+ * 对于4096位的RSA模数这样的大整数，这会很慢。
+ * 
+ * BigInt与十六进制字符串之间的转换只需要线性时间，而每个字节正好对应两个十六进制字符，
+ * 所以这里借助十六进制字符串转换，总时间与字节数成正比。
+ */
+
+/**
+ * 0-255每个字节对应的两个十六进制字符
+ */
+const hexBytes = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, "0"));
+
+/**
+ * 把字节数组中的无符号整数转换为BigInt
+ * 
+ * @param data 源字节数组(调用者需要保证字节数足够)
+ * @param offset 偏移位置
+ * @param byteLength 整数的字节数
+ * @param reverse 是否为小端序(最低位字节在前)
+ * @returns 无符号整数(BigInt类型)
+ */
+function bigIntFromHex(
+	data: Uint8Array,
+	offset: number,
+	byteLength: number,
+	reverse: boolean
+): bigint {
+	let hex = "0x";
+	for (let i = 0; i < byteLength; i++) {
+		hex += hexBytes[data[offset + (reverse ? byteLength - 1 - i : i)]];
+	}
+	return BigInt(hex);
+}
+
+/**
+ * 把BigInt表示的无符号整数写入字节数组
+ * 
+ * @param target 目标字节数组(调用者需要保证空间足够)
+ * @param value 无符号整数(调用者需要保证小于2^(byteLength*8))
+ * @param offset 偏移位置
+ * @param byteLength 整数的字节数
+ * @param reverse 是否为小端序(最低位字节在前)
+ */
+function putBigIntHex(
+	target: Uint8Array,
+	value: bigint,
+	offset: number,
+	byteLength: number,
+	reverse: boolean
+): void {
+	const hex = value.toString(16).padStart(byteLength * 2, "0");
+	for (let i = 0; i < byteLength; i++) {
+		const byte = (hexDigit(hex.charCodeAt(i * 2)) << 4) | hexDigit(hex.charCodeAt(i * 2 + 1));
+		target[offset + (reverse ? byteLength - 1 - i : i)] = byte;
+	}
+}
+
+/**
+ * 把小写十六进制字符的字符编码转换为对应的值(0-15)
+ * 
+ * @param code "0"-"9"或"a"-"f"的字符编码
+ * @returns 对应的值
+ */
+function hexDigit(code: number): number {
+	// "0"-"9"的编码为48-57，"a"-"f"的编码为97-102
+	return code < 97 ? code - 48 : code - 87;
+}
+
+/**
+ * 浮点数与其二进制位之间的转换
+ * 
+ * IEEE 754浮点数由符号位、指数和尾数组成：
+ * - 半精度(binary16)：1位符号 + 5位指数 + 10位尾数
+ * - 单精度(binary32)：1位符号 + 8位指数 + 23位尾数
+ * - 双精度(binary64)：1位符号 + 11位指数 + 52位尾数
+ * 
+ * 指数全为1且尾数不为0时表示NaN，尾数中的位被称为NaN的"payload"。
+ * 这里的转换都以双精度的位表示为中间格式，以便在不同精度之间保留NaN的payload、有符号的零和无穷大。
+ */
+
+/**
+ * 用于读取和写入双精度浮点数二进制位的共享缓冲区
+ */
+const float64View = new DataView(new ArrayBuffer(8));
+
+/**
+ * 获取双精度浮点数的二进制位
+ * 
+ * @param value 浮点数
+ * @returns 高32位和低32位
+ */
+function float64Bits(value: number): [number, number] {
+	float64View.setFloat64(0, value);
+	return [float64View.getUint32(0), float64View.getUint32(4)];
+}
+
+/**
+ * 从二进制位还原双精度浮点数
+ * 
+ * @param high 高32位
+ * @param low 低32位
+ * @returns 浮点数
+ */
+function float64FromBits(high: number, low: number): number {
+	float64View.setUint32(0, high);
+	float64View.setUint32(4, low);
+	return float64View.getFloat64(0);
+}
+
+/**
+ * 获取数字对应的单精度浮点数二进制位
+ * 
+ * @param value 浮点数
+ * @returns 32位的二进制表示
+ */
+function float32Bits(value: number): number {
+	if (Number.isNaN(value)) {
+		const [high, low] = float64Bits(value);
+		// 保留双精度尾数的高23位作为payload
+		let mantissa = ((high & 0xfffff) << 3) | (low >>> 29);
+		if (mantissa === 0) {
+			// payload全为0会变成无穷大，所以设置quiet位
+			mantissa = 0x400000;
+		}
+		return ((high & 0x80000000) | 0x7f800000 | mantissa) >>> 0;
+	}
+	// setFloat32() 会按照"就近舍入，平局取偶"的规则舍入
+	float64View.setFloat32(0, value);
+	return float64View.getUint32(0);
+}
+
+/**
+ * 从单精度浮点数的二进制位还原数字
+ * 
+ * @param bits 32位的二进制表示
+ * @returns 浮点数
+ */
+function float32FromBits(bits: number): number {
+	const mantissa = bits & 0x7fffff;
+	if ((bits & 0x7f800000) === 0x7f800000 && mantissa !== 0) {
+		// NaN：把payload放到双精度尾数的高23位
+		return float64FromBits(
+			((bits & 0x80000000) | 0x7ff00000 | (mantissa >>> 3)) >>> 0,
+			((mantissa & 0x7) << 29) >>> 0
+		);
+	}
+	float64View.setUint32(0, bits);
+	return float64View.getFloat32(0);
+}
+
+/**
+ * 获取数字对应的半精度浮点数二进制位
+ * 
+ * @param value 浮点数
+ * @returns 16位的二进制表示
+ */
+function float16Bits(value: number): number {
+	const [high, low] = float64Bits(value);
+	const sign = (high >>> 16) & 0x8000;
+	const exponent = (high >>> 20) & 0x7ff;
+	if (exponent === 0x7ff) {
+		if ((high & 0xfffff) === 0 && low === 0) {
+			// 无穷大
+			return sign | 0x7c00;
+		}
+		// NaN：保留双精度尾数的高10位作为payload
+		let mantissa = (high >>> 10) & 0x3ff;
+		if (mantissa === 0) {
+			mantissa = 0x200;
+		}
+		return sign | 0x7c00 | mantissa;
+	}
+	const abs = Math.abs(value);
+	// 65520是半精度最大值65504和65536的中点，舍入后为无穷大
+	if (abs >= 65520) {
+		return sign | 0x7c00;
+	}
+	if (abs < 2 ** -14) {
+		// 非规格化数(subnormal)：值为 尾数 * 2^-24
+		// 如果舍入后尾数为1024，得到的正好是最小规格化数的编码
+		return sign | roundHalfToEven(abs * 2 ** 24);
+	}
+	const e = exponent - 1023;
+	// 乘以2的整数次幂是精确的，所以只会舍入一次
+	const mantissa = roundHalfToEven(abs * 2 ** (10 - e));
+	// 如果尾数舍入到2048，加法会自然地进位到指数
+	return sign | (((e + 15) << 10) + mantissa - 1024);
+}
+
+/**
+ * 从半精度浮点数的二进制位还原数字
+ * 
+ * @param bits 16位的二进制表示
+ * @returns 浮点数
+ */
+function float16FromBits(bits: number): number {
+	const sign = bits & 0x8000 ? -1 : 1;
+	const exponent = (bits >> 10) & 0x1f;
+	const mantissa = bits & 0x3ff;
+	if (exponent === 0) {
+		return sign * mantissa * 2 ** -24;
+	}
+	if (exponent === 0x1f) {
+		if (mantissa === 0) {
+			return sign * Infinity;
+		}
+		// NaN：把payload放到双精度尾数的高10位
+		return float64FromBits((((bits & 0x8000) << 16) | 0x7ff00000 | (mantissa << 10)) >>> 0, 0);
+	}
+	return sign * (mantissa + 1024) * 2 ** (exponent - 25);
+}
+
+/**
+ * 以"就近舍入，平局取偶"的规则把非负数舍入为整数
+ * 
+ * @param x 非负数
+ * @returns 舍入后的整数
+ */
+function roundHalfToEven(x: number): number {
+	const floor = Math.floor(x);
+	const diff = x - floor;
+	if (diff < 0.5) {
+		return floor;
+	}
+	if (diff > 0.5) {
+		return floor + 1;
+	}
+	return floor % 2 === 0 ? floor : floor + 1;
 }
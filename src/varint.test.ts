@@ -0,0 +1,226 @@
+/**
+ * varint.test.ts - varint.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/varint.ts` 中LEB128变长整数编码和解码的单元测试。
+ * 测试的目的是确保三种编码方式(unsigned、signed、zigzag)的结果与Protobuf和WebAssembly的规范一致，
+ * 并且能拒绝不是最短的编码和超出范围的值。
+ * 文件的最后是QUIC变长整数(RFC 9000)的测试，测试数据来自RFC 9000的附录A.1。
+ */
+import { describe, expect, test } from "vitest";
+import {
+	decodeBigVarint,
+	decodeVarint,
+	encodeQuicVarint,
+	encodeVarint,
+	putQuicVarint,
+	readBigQuicVarint,
+	readQuicVarint,
+	VarintError,
+	writeVarint,
+	zigzagDecode,
+	zigzagEncode
+} from "./varint.js";
+import { DynamicBuffer } from "./bytes.js";
+
+describe("无符号LEB128", () => {
+	// 测试编码
+	test("encodeVarint()", () => {
+		expect(encodeVarint(0)).toStrictEqual(new Uint8Array([0x00]));
+		expect(encodeVarint(127)).toStrictEqual(new Uint8Array([0x7f]));
+		expect(encodeVarint(128)).toStrictEqual(new Uint8Array([0x80, 0x01]));
+		expect(encodeVarint(300)).toStrictEqual(new Uint8Array([0xac, 0x02]));
+		expect(encodeVarint(Number.MAX_SAFE_INTEGER)).toStrictEqual(
+			new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x0f])
+		);
+		expect(encodeVarint(300n)).toStrictEqual(new Uint8Array([0xac, 0x02]));
+		expect(encodeVarint(0xffffffffffffffffn)).toStrictEqual(
+			new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01])
+		);
+		expect(() => encodeVarint(-1)).toThrowError("Invalid varint value");
+		expect(() => encodeVarint(1.5)).toThrowError("Invalid varint value");
+		expect(() => encodeVarint(1n << 64n)).toThrowError("Invalid varint value");
+	});
+
+	// 测试解码，返回值和读取的字节数
+	test("decodeVarint()/decodeBigVarint()", () => {
+		expect(decodeVarint(new Uint8Array([0xac, 0x02, 0xff]))).toStrictEqual([300, 2]);
+		expect(decodeVarint(new Uint8Array([0xff, 0x7f]), 1)).toStrictEqual([127, 1]);
+		expect(decodeBigVarint(new Uint8Array([0xac, 0x02]))).toStrictEqual([300n, 2]);
+		expect(
+			decodeBigVarint(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01]))
+		).toStrictEqual([0xffffffffffffffffn, 10]);
+		expect(
+			decodeVarint(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x0f]))
+		).toStrictEqual([Number.MAX_SAFE_INTEGER, 8]);
+	});
+
+	// 测试错误情况
+	test("无效的编码", () => {
+		// 字节数不足：最后一个字节的继续位为1
+		expect(() => decodeVarint(new Uint8Array([0xac]))).toThrowError("Insufficient bytes");
+		expect(() => decodeBigVarint(new Uint8Array([]))).toThrowError("Insufficient bytes");
+		// 不是最短的编码
+		expect(() => decodeVarint(new Uint8Array([0x81, 0x00]))).toThrowError(VarintError);
+		expect(() => decodeBigVarint(new Uint8Array([0x80, 0x80, 0x00]))).toThrowError(
+			"Overlong varint encoding"
+		);
+		// 超出安全整数的范围
+		expect(() =>
+			decodeVarint(new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x10]))
+		).toThrowError("Varint overflow");
+		// 超出64位的范围
+		expect(() =>
+			decodeBigVarint(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x02]))
+		).toThrowError(VarintError);
+		expect(() => decodeBigVarint(new Uint8Array(11).fill(0x80))).toThrowError("Varint overflow");
+	});
+});
+
+describe("有符号LEB128", () => {
+	// WebAssembly规范中的例子
+	test('encodeVarint(value, "signed")', () => {
+		expect(encodeVarint(0, "signed")).toStrictEqual(new Uint8Array([0x00]));
+		expect(encodeVarint(-1, "signed")).toStrictEqual(new Uint8Array([0x7f]));
+		expect(encodeVarint(63, "signed")).toStrictEqual(new Uint8Array([0x3f]));
+		expect(encodeVarint(64, "signed")).toStrictEqual(new Uint8Array([0xc0, 0x00]));
+		expect(encodeVarint(-64, "signed")).toStrictEqual(new Uint8Array([0x40]));
+		expect(encodeVarint(-123456, "signed")).toStrictEqual(new Uint8Array([0xc0, 0xbb, 0x78]));
+		expect(encodeVarint(-0x8000000000000000n, "signed")).toStrictEqual(
+			new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7f])
+		);
+		expect(() => encodeVarint(1n << 63n, "signed")).toThrowError("Invalid varint value");
+	});
+
+	test('decodeVarint(data, offset, "signed")', () => {
+		expect(decodeVarint(new Uint8Array([0x7f]), 0, "signed")).toStrictEqual([-1, 1]);
+		expect(decodeVarint(new Uint8Array([0xc0, 0x00]), 0, "signed")).toStrictEqual([64, 2]);
+		expect(decodeVarint(new Uint8Array([0xc0, 0xbb, 0x78]), 0, "signed")).toStrictEqual([
+			-123456, 3
+		]);
+		expect(
+			decodeBigVarint(
+				new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7f]),
+				0,
+				"signed"
+			)
+		).toStrictEqual([-0x8000000000000000n, 10]);
+		// 不是最短的编码
+		expect(() => decodeVarint(new Uint8Array([0xff, 0x7f]), 0, "signed")).toThrowError(
+			"Overlong varint encoding"
+		);
+		expect(() => decodeVarint(new Uint8Array([0x80, 0x00]), 0, "signed")).toThrowError(
+			"Overlong varint encoding"
+		);
+		// 超出64位的范围
+		expect(() =>
+			decodeBigVarint(
+				new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7e]),
+				0,
+				"signed"
+			)
+		).toThrowError("Varint overflow");
+	});
+});
+
+describe("zigzag", () => {
+	test("zigzagEncode()/zigzagDecode()", () => {
+		expect(zigzagEncode(0n)).toBe(0n);
+		expect(zigzagEncode(-1n)).toBe(1n);
+		expect(zigzagEncode(1n)).toBe(2n);
+		expect(zigzagEncode(-2n)).toBe(3n);
+		expect(zigzagEncode(-0x8000000000000000n)).toBe(0xffffffffffffffffn);
+		for (const value of [0n, -1n, 1n, -2n, 0x7fffffffffffffffn, -0x8000000000000000n]) {
+			expect(zigzagDecode(zigzagEncode(value))).toBe(value);
+		}
+	});
+
+	test("encodeVarint()/decodeVarint() 使用 zigzag", () => {
+		expect(encodeVarint(-1, "zigzag")).toStrictEqual(new Uint8Array([0x01]));
+		expect(encodeVarint(-64, "zigzag")).toStrictEqual(new Uint8Array([0x7f]));
+		expect(encodeVarint(64, "zigzag")).toStrictEqual(new Uint8Array([0x80, 0x01]));
+		expect(decodeVarint(new Uint8Array([0x7f]), 0, "zigzag")).toStrictEqual([-64, 1]);
+		expect(
+			decodeVarint(encodeVarint(-Number.MAX_SAFE_INTEGER, "zigzag"), 0, "zigzag")
+		).toStrictEqual([-Number.MAX_SAFE_INTEGER, 8]);
+		// 超出安全整数的范围
+		expect(() => decodeVarint(encodeVarint(-(2n ** 53n), "zigzag"), 0, "zigzag")).toThrowError(
+			"Varint overflow"
+		);
+	});
+});
+
+// 测试追加到 DynamicBuffer
+test("writeVarint()", () => {
+	const buffer = new DynamicBuffer(0);
+	writeVarint(buffer, 300);
+	writeVarint(buffer, -1, "zigzag");
+	writeVarint(buffer, -1n, "signed");
+	expect(buffer.bytes()).toStrictEqual(new Uint8Array([0xac, 0x02, 0x01, 0x7f]));
+});
+
+describe("QUIC变长整数", () => {
+	// RFC 9000 附录A.1中的示例
+	const examples: [bigint, number[]][] = [
+		[151288809941952652n, [0xc2, 0x19, 0x7c, 0x5e, 0xff, 0x14, 0xe8, 0x8c]],
+		[494878333n, [0x9d, 0x7f, 0x3e, 0x7d]],
+		[15293n, [0x7b, 0xbd]],
+		[37n, [0x25]]
+	];
+
+	test("encodeQuicVarint()", () => {
+		for (const [value, bytes] of examples) {
+			expect(encodeQuicVarint(value)).toStrictEqual(new Uint8Array(bytes));
+		}
+		expect(encodeQuicVarint(37)).toStrictEqual(new Uint8Array([0x25]));
+		expect(encodeQuicVarint(63)).toStrictEqual(new Uint8Array([0x3f]));
+		expect(encodeQuicVarint(64)).toStrictEqual(new Uint8Array([0x40, 0x40]));
+		expect(encodeQuicVarint(2 ** 30)).toStrictEqual(
+			new Uint8Array([0xc0, 0x00, 0x00, 0x00, 0x40, 0x00, 0x00, 0x00])
+		);
+		expect(encodeQuicVarint(2n ** 62n - 1n)).toStrictEqual(
+			new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])
+		);
+		// 强制使用更长的编码(RFC 9000 附录A.1 中37的两字节编码)
+		expect(encodeQuicVarint(37, 2)).toStrictEqual(new Uint8Array([0x40, 0x25]));
+		expect(encodeQuicVarint(37, 8)).toStrictEqual(
+			new Uint8Array([0xc0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x25])
+		);
+		expect(() => encodeQuicVarint(64, 1)).toThrowError("QUIC varint value does not fit in size");
+		expect(() => encodeQuicVarint(2n ** 62n)).toThrowError("Invalid QUIC varint value");
+		expect(() => encodeQuicVarint(-1)).toThrowError("Invalid QUIC varint value");
+		expect(() => encodeQuicVarint(1.5)).toThrowError("Invalid QUIC varint value");
+	});
+
+	test("putQuicVarint()", () => {
+		const target = new Uint8Array(5);
+		expect(putQuicVarint(target, 15293, 1)).toBe(2);
+		expect(putQuicVarint(target, 0, 3, 2)).toBe(2);
+		expect(target).toStrictEqual(new Uint8Array([0x00, 0x7b, 0xbd, 0x40, 0x00]));
+		expect(() => putQuicVarint(target, 494878333, 2)).toThrowError("Not enough space");
+	});
+
+	test("readQuicVarint()/readBigQuicVarint()", () => {
+		for (const [value, bytes] of examples) {
+			expect(readBigQuicVarint(new Uint8Array(bytes), 0)).toStrictEqual([value, bytes.length]);
+		}
+		expect(readQuicVarint(new Uint8Array([0x00, 0x9d, 0x7f, 0x3e, 0x7d]), 1)).toStrictEqual([
+			494878333, 4
+		]);
+		// 不是最短的编码也是有效的
+		expect(readQuicVarint(new Uint8Array([0x40, 0x25]), 0)).toStrictEqual([37, 2]);
+		const maxSafe = encodeQuicVarint(Number.MAX_SAFE_INTEGER);
+		expect(readQuicVarint(maxSafe, 0)).toStrictEqual([Number.MAX_SAFE_INTEGER, 8]);
+		// 低32位的最高位为1
+		expect(
+			readQuicVarint(new Uint8Array([0xc0, 0x00, 0x00, 0x01, 0x80, 0x00, 0x00, 0x00]), 0)
+		).toStrictEqual([0x180000000, 8]);
+		// 超出安全整数的范围
+		expect(() => readQuicVarint(new Uint8Array(examples[0][1]), 0)).toThrowError("Varint overflow");
+		// 字节数不足
+		expect(() => readQuicVarint(new Uint8Array([]), 0)).toThrowError("Insufficient bytes");
+		expect(() => readQuicVarint(new Uint8Array([0x7b]), 0)).toThrowError("Insufficient bytes");
+		expect(() => readBigQuicVarint(new Uint8Array([0xc2, 0x19, 0x7c]), 0)).toThrowError(
+			"Insufficient bytes"
+		);
+	});
+});
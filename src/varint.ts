@@ -0,0 +1,451 @@
+/**
+ * varint.ts - 变长整数编码(LEB128和QUIC)
+ * 
+ * LEB128(Little Endian Base 128)是一种变长的整数编码方式，被Protobuf、WebAssembly等格式使用。
+ * 小的数字只占用很少的字节，大的数字占用更多的字节。
+ * 
+ * 编码规则：
+ * 把整数按7位一组从低位到高位拆分，每组放在一个字节的低7位中，
+ * 字节的最高位(第8位)是"继续位"：为1表示后面还有字节，为0表示这是最后一个字节。
+ * 
+ * 例如，数字300的二进制是 100101100：
+ * - 低7位：0101100 => 加上继续位 => 10101100 (0xac)
+ * - 剩下的：0000010 => 最后一个字节 => 00000010 (0x02)
+ * 所以300被编码为 [0xac, 0x02]
+ * 
+ * 有符号整数有两种常见的编码方式：
+ * - signed：二进制补码的LEB128(也叫SLEB128)，最后一个字节的第7位是符号位，WebAssembly和DWARF使用这种方式
+ * - zigzag：先把有符号整数映射为无符号整数(0 => 0, -1 => 1, 1 => 2, -2 => 3 ...)，再按无符号编码，
+ *   Protobuf的sint32/sint64使用这种方式
+ * 
+ * 本模块支持的值的范围与ByteOrder一致：无符号整数最多64位，有符号整数最多64位(二进制补码)。
+ * 
+ * 本模块还实现了QUIC(RFC 9000)使用的另一种变长整数编码，见文件后半部分。
+ */
+
+import { bigEndian } from "./uint.js";
+
+import type { WriteTarget } from "./bytes.js";
+
+/**
+ * 变长整数的编码方式
+ * 
+ * - "unsigned"：无符号LEB128
+ * - "signed"：有符号LEB128(二进制补码)
+ * - "zigzag"：zigzag映射后的无符号LEB128
+ */
+export type VarintMode = "unsigned" | "signed" | "zigzag";
+
+/**
+ * 无效的变长整数编码错误
+ * 
+ * 在以下情况下抛出：
+ * - 编码不是最短的(overlong)，例如用 [0x81, 0x00] 表示1，而最短的编码是 [0x01]
+ * - 编码的值超出了支持的范围(overflow)
+ * 
+ * 继承自TypeError，与本库中其他的数据错误保持一致。
+ */
+export class VarintError extends TypeError {
+	constructor(message: string) {
+		super(message);
+		this.name = "VarintError";
+	}
+}
+
+/**
+ * 把整数编码为LEB128变长整数
+ * 
+ * 例如：encodeVarint(300) 返回 [0xac, 0x02]，encodeVarint(-1, "zigzag") 返回 [0x01]
+ * 
+ * @param value 要编码的整数(number类型必须是安全整数)
+ * @param mode 编码方式(默认为"unsigned")
+ * @returns 编码后的字节数组
+ * @throws 如果值无效或超出范围，抛出TypeError
+ */
+export function encodeVarint(value: number | bigint, mode: VarintMode = "unsigned"): Uint8Array {
+	const size = encodeVarintInto(varintScratch, value, mode);
+	return varintScratch.slice(0, size);
+}
+
+/**
+ * 把整数编码为LEB128变长整数并追加到写入目标(DynamicBuffer或SegmentedBuffer)的末尾
+ * 
+ * @param buffer 目标缓冲区
+ * @param value 要编码的整数(number类型必须是安全整数)
+ * @param mode 编码方式(默认为"unsigned")
+ * @throws 如果值无效或超出范围，抛出TypeError
+ */
+export function writeVarint(
+	buffer: WriteTarget,
+	value: number | bigint,
+	mode: VarintMode = "unsigned"
+): void {
+	const size = encodeVarintInto(varintScratch, value, mode);
+	buffer.write(varintScratch.subarray(0, size));
+}
+
+/**
+ * 从字节数组中解码LEB128变长整数(number类型)
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置(默认为0)
+ * @param mode 编码方式(默认为"unsigned")
+ * @returns [解码出的整数, 读取的字节数]
+ * @throws 如果字节数不足，抛出TypeError；如果编码不是最短的，或值超出安全整数的范围，抛出VarintError
+ */
+export function decodeVarint(
+	data: Uint8Array,
+	offset = 0,
+	mode: VarintMode = "unsigned"
+): [value: number, size: number] {
+	if (mode === "unsigned") {
+		// 无符号整数的快速路径：不使用BigInt
+		let value = 0;
+		for (let i = 0; ; i++) {
+			if (data.byteLength <= offset + i) {
+				throw new TypeError("Insufficient bytes");
+			}
+			if (i === 8) {
+				// 第9个字节表示的值至少为2^56，超出了安全整数的范围
+				throw new VarintError("Varint overflow");
+			}
+			const byte = data[offset + i];
+			// 位运算只能处理32位，所以用乘法代替左移
+			value += (byte & 0x7f) * 2 ** (i * 7);
+			if ((byte & 0x80) === 0) {
+				if (byte === 0 && i > 0) {
+					throw new VarintError("Overlong varint encoding");
+				}
+				if (value > Number.MAX_SAFE_INTEGER) {
+					throw new VarintError("Varint overflow");
+				}
+				return [value, i + 1];
+			}
+		}
+	}
+	const [value, size] = decodeBigVarint(data, offset, mode);
+	if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(-Number.MAX_SAFE_INTEGER)) {
+		throw new VarintError("Varint overflow");
+	}
+	return [Number(value), size];
+}
+
+/**
+ * 从字节数组中解码LEB128变长整数(BigInt类型)
+ * 
+ * 无符号整数最多64位，有符号整数最多64位(-2^63到2^63-1)，所以编码最多10个字节。
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置(默认为0)
+ * @param mode 编码方式(默认为"unsigned")
+ * @returns [解码出的整数, 读取的字节数]
+ * @throws 如果字节数不足，抛出TypeError；如果编码不是最短的，或值超出64位的范围，抛出VarintError
+ */
+export function decodeBigVarint(
+	data: Uint8Array,
+	offset = 0,
+	mode: VarintMode = "unsigned"
+): [value: bigint, size: number] {
+	let raw = 0n;
+	let size = 0;
+	for (let i = 0; ; i++) {
+		if (data.byteLength <= offset + i) {
+			throw new TypeError("Insufficient bytes");
+		}
+		if (i === 10) {
+			throw new VarintError("Varint overflow");
+		}
+		const byte = data[offset + i];
+		raw |= BigInt(byte & 0x7f) << BigInt(i * 7);
+		if ((byte & 0x80) === 0) {
+			size = i + 1;
+			break;
+		}
+	}
+	const last = data[offset + size - 1];
+	if (mode === "signed") {
+		if (size > 1) {
+			// 如果去掉最后一个字节后，前一个字节的符号位(第7位)已经能表示正确的符号，
+			// 那么最后一个字节就是多余的
+			const signBit = data[offset + size - 2] & 0x40;
+			if ((last === 0x00 && signBit === 0) || (last === 0x7f && signBit !== 0)) {
+				throw new VarintError("Overlong varint encoding");
+			}
+		}
+		// 把最高的有效位(第 7 * size 位)当作符号位
+		const value = BigInt.asIntN(size * 7, raw);
+		if (value < -0x8000000000000000n || value > 0x7fffffffffffffffn) {
+			throw new VarintError("Varint overflow");
+		}
+		return [value, size];
+	}
+	if (last === 0 && size > 1) {
+		throw new VarintError("Overlong varint encoding");
+	}
+	if (raw > 0xffffffffffffffffn) {
+		throw new VarintError("Varint overflow");
+	}
+	if (mode === "zigzag") {
+		return [zigzagDecode(raw), size];
+	}
+	return [raw, size];
+}
+
+/**
+ * zigzag编码：把有符号整数映射为无符号整数
+ * 
+ * 映射规则：0 => 0, -1 => 1, 1 => 2, -2 => 3, 2 => 4 ...
+ * 这样绝对值小的负数也会变成小的无符号整数，编码后只占用很少的字节。
+ * 
+ * @param value 有符号整数
+ * @returns 无符号整数
+ */
+export function zigzagEncode(value: bigint): bigint {
+	return value >= 0n ? value << 1n : (-value << 1n) - 1n;
+}
+
+/**
+ * zigzag解码：zigzagEncode()的逆运算
+ * 
+ * @param value 无符号整数
+ * @returns 有符号整数
+ */
+export function zigzagDecode(value: bigint): bigint {
+	// 最低位为1表示负数
+	return (value & 1n) === 0n ? value >> 1n : -((value + 1n) >> 1n);
+}
+
+/**
+ * 编码时使用的临时空间(64位整数最多需要10个字节)
+ */
+const varintScratch = new Uint8Array(10);
+
+/**
+ * 把整数编码为LEB128变长整数并写入目标数组的开头
+ * 
+ * @param target 目标字节数组(至少10个字节)
+ * @param value 要编码的整数
+ * @param mode 编码方式
+ * @returns 写入的字节数
+ * @throws 如果值无效或超出范围，抛出TypeError
+ */
+function encodeVarintInto(target: Uint8Array, value: number | bigint, mode: VarintMode): number {
+	if (typeof value === "number") {
+		if (!Number.isSafeInteger(value)) {
+			throw new TypeError("Invalid varint value");
+		}
+		if (mode === "unsigned" && value >= 0) {
+			// 无符号整数的快速路径：不使用BigInt
+			let size = 0;
+			while (value >= 0x80) {
+				target[size++] = (value % 0x80) | 0x80;
+				value = Math.floor(value / 0x80);
+			}
+			target[size++] = value;
+			return size;
+		}
+		value = BigInt(value);
+	}
+	if (mode === "signed") {
+		if (value < -0x8000000000000000n || value > 0x7fffffffffffffffn) {
+			throw new TypeError("Invalid varint value");
+		}
+		let size = 0;
+		for (;;) {
+			const byte = Number(value & 0x7fn);
+			// BigInt的 >> 是算术右移，负数会一直保持为负数
+			value >>= 7n;
+			// 剩下的位全部是符号位，并且当前字节的第7位与符号一致时结束
+			if ((value === 0n && (byte & 0x40) === 0) || (value === -1n && (byte & 0x40) !== 0)) {
+				target[size++] = byte;
+				return size;
+			}
+			target[size++] = byte | 0x80;
+		}
+	}
+	if (mode === "zigzag") {
+		if (value < -0x8000000000000000n || value > 0x7fffffffffffffffn) {
+			throw new TypeError("Invalid varint value");
+		}
+		value = zigzagEncode(value);
+	}
+	if (value < 0n || value > 0xffffffffffffffffn) {
+		throw new TypeError("Invalid varint value");
+	}
+	let size = 0;
+	while (value >= 0x80n) {
+		target[size++] = Number(value & 0x7fn) | 0x80;
+		value >>= 7n;
+	}
+	target[size++] = Number(value);
+	return size;
+}
+
+/**
+ * QUIC变长整数(RFC 9000 第16节)
+ * 
+ * QUIC使用另一种变长整数编码：第一个字节的最高2位表示整数占用的字节数，剩下的位以大端序存储整数。
+ * 
+ * | 最高2位 | 字节数 | 可用的位数 | 最大值         |
+ * | 00      | 1      | 6          | 63             |
+ * | 01      | 2      | 14         | 16383          |
+ * | 10      | 4      | 30         | 1073741823     |
+ * | 11      | 8      | 62         | 2^62-1         |
+ * 
+ * 例如：37 被编码为 [0x25]，15293 被编码为 [0x7b, 0xbd]
+ * 
+ * 与LEB128不同，QUIC允许使用比最短编码更长的编码，所以解码时不会拒绝它们。
+ */
+
+/**
+ * QUIC变长整数的字节数
+ */
+export type QuicVarintSize = 1 | 2 | 4 | 8;
+
+/**
+ * 把整数编码为QUIC变长整数
+ * 
+ * @param value 要编码的整数(0到2^62-1，number类型必须是安全整数)
+ * @param size 强制使用的字节数，默认使用最短的编码
+ * @returns 编码后的字节数组
+ * @throws 如果值无效，或者无法用指定的字节数表示，抛出TypeError
+ */
+export function encodeQuicVarint(value: number | bigint, size?: QuicVarintSize): Uint8Array {
+	const encoded = new Uint8Array(size ?? quicVarintSize(value));
+	putQuicVarint(encoded, value, 0, size);
+	return encoded;
+}
+
+/**
+ * 把整数以QUIC变长整数写入字节数组
+ * 
+ * 默认使用最短的编码。对于需要先写入占位符、之后再填入实际值的字段(例如还不知道长度时的长度字段)，
+ * 可以通过size强制使用固定的字节数。
+ * 
+ * @param target 目标字节数组
+ * @param value 要写入的整数(0到2^62-1，number类型必须是安全整数)
+ * @param offset 偏移位置
+ * @param size 强制使用的字节数，默认使用最短的编码
+ * @returns 写入的字节数
+ * @throws 如果空间不足、值无效，或者无法用指定的字节数表示，抛出TypeError
+ */
+export function putQuicVarint(
+	target: Uint8Array,
+	value: number | bigint,
+	offset: number,
+	size?: QuicVarintSize
+): number {
+	const minimumSize = quicVarintSize(value);
+	if (size === undefined) {
+		size = minimumSize;
+	} else if (size < minimumSize) {
+		throw new TypeError("QUIC varint value does not fit in size");
+	}
+	if (target.length < offset + size) {
+		throw new TypeError("Not enough space");
+	}
+	if (size === 8) {
+		// 高32位和低32位分开写入，最高2位为 11
+		const high = typeof value === "bigint" ? Number(value >> 32n) : Math.floor(value / 0x100000000);
+		const low = typeof value === "bigint" ? Number(value & 0xffffffffn) : value % 0x100000000;
+		bigEndian.putUint32(target, high + 0xc0000000, offset);
+		bigEndian.putUint32(target, low, offset + 4);
+		return size;
+	}
+	// 其余情况下的值都小于2^30，可以安全地转换为number
+	const small = Number(value);
+	if (size === 1) {
+		bigEndian.putUint8(target, small, offset);
+	} else if (size === 2) {
+		bigEndian.putUint16(target, small + 0x4000, offset);
+	} else {
+		bigEndian.putUint32(target, small + 0x80000000, offset);
+	}
+	return size;
+}
+
+/**
+ * 从字节数组中读取QUIC变长整数(number类型)
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置
+ * @returns [读取的整数, 读取的字节数]
+ * @throws 如果字节数不足，抛出TypeError；如果值超出安全整数的范围，抛出VarintError
+ */
+export function readQuicVarint(data: Uint8Array, offset: number): [value: number, size: number] {
+	const size = quicVarintSizeAt(data, offset);
+	if (size === 1) {
+		return [data[offset], 1];
+	}
+	if (size === 2) {
+		return [bigEndian.uint16(data, offset) & 0x3fff, 2];
+	}
+	if (size === 4) {
+		return [(bigEndian.uint32(data, offset) & 0x3fffffff) >>> 0, 4];
+	}
+	const high = (bigEndian.uint32(data, offset) & 0x3fffffff) >>> 0;
+	// 高32位超过21位时，值至少为2^53，超出了安全整数的范围
+	if (high > 0x1fffff) {
+		throw new VarintError("Varint overflow");
+	}
+	return [high * 0x100000000 + (bigEndian.uint32(data, offset + 4) >>> 0), 8];
+}
+
+/**
+ * 从字节数组中读取QUIC变长整数(BigInt类型)
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置
+ * @returns [读取的整数, 读取的字节数]
+ * @throws 如果字节数不足，抛出TypeError
+ */
+export function readBigQuicVarint(data: Uint8Array, offset: number): [value: bigint, size: number] {
+	const size = quicVarintSizeAt(data, offset);
+	if (size === 8) {
+		return [bigEndian.uint64(data, offset) & 0x3fffffffffffffffn, 8];
+	}
+	const [value] = readQuicVarint(data, offset);
+	return [BigInt(value), size];
+}
+
+/**
+ * 计算整数的最短QUIC变长整数编码的字节数
+ * 
+ * @param value 整数
+ * @returns 字节数
+ * @throws 如果值无效，抛出TypeError
+ */
+function quicVarintSize(value: number | bigint): QuicVarintSize {
+	if (typeof value === "number" && !Number.isSafeInteger(value)) {
+		throw new TypeError("Invalid QUIC varint value");
+	}
+	if (value < 0 || value > 0x3fffffffffffffffn) {
+		throw new TypeError("Invalid QUIC varint value");
+	}
+	if (value <= 63) {
+		return 1;
+	}
+	if (value <= 16383) {
+		return 2;
+	}
+	if (value <= 1073741823) {
+		return 4;
+	}
+	return 8;
+}
+
+/**
+ * 根据第一个字节的最高2位获取QUIC变长整数的字节数，并检查字节数是否足够
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置
+ * @returns 字节数
+ * @throws 如果字节数不足，抛出TypeError
+ */
+function quicVarintSizeAt(data: Uint8Array, offset: number): QuicVarintSize {
+	const size = (1 << (bigEndian.uint8(data, offset) >> 6)) as QuicVarintSize;
+	if (data.byteLength < offset + size) {
+		throw new TypeError("Insufficient bytes");
+	}
+	return size;
+}
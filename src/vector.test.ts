@@ -0,0 +1,97 @@
+/**
+ * vector.test.ts - vector.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/vector.ts` 中带长度前缀的字节向量的单元测试。
+ * 测试的目的是确保不同宽度和字节序的长度前缀都能正确编码和解码，
+ * 能检查声明的最小和最大长度，并且嵌套的向量可以正常使用。
+ */
+import { describe, expect, test } from "vitest";
+import { decodeVector, encodeVector, writeVector } from "./vector.js";
+import { concatenateBytes, DynamicBuffer } from "./bytes.js";
+import { littleEndian } from "./uint.js";
+
+describe("带长度前缀的字节向量", () => {
+	const payload = new Uint8Array([0xaa, 0xbb, 0xcc]);
+
+	// 测试不同宽度的长度前缀
+	test("encodeVector()", () => {
+		expect(encodeVector(payload, 1)).toStrictEqual(new Uint8Array([0x03, 0xaa, 0xbb, 0xcc]));
+		expect(encodeVector(payload, 2)).toStrictEqual(new Uint8Array([0x00, 0x03, 0xaa, 0xbb, 0xcc]));
+		expect(encodeVector(payload, 3)).toStrictEqual(
+			new Uint8Array([0x00, 0x00, 0x03, 0xaa, 0xbb, 0xcc])
+		);
+		expect(encodeVector(payload, 4, { byteOrder: littleEndian })).toStrictEqual(
+			new Uint8Array([0x03, 0x00, 0x00, 0x00, 0xaa, 0xbb, 0xcc])
+		);
+		expect(encodeVector(new Uint8Array(), 2)).toStrictEqual(new Uint8Array([0x00, 0x00]));
+		// 超出长度前缀可以表示的范围
+		expect(() => encodeVector(new Uint8Array(256), 1)).toThrowError("Invalid vector length");
+		// 超出声明的范围
+		expect(() => encodeVector(payload, 2, { max: 2 })).toThrowError("Invalid vector length");
+		expect(() => encodeVector(payload, 2, { min: 4 })).toThrowError("Invalid vector length");
+	});
+
+	// 测试追加到 DynamicBuffer
+	test("writeVector()", () => {
+		const buffer = new DynamicBuffer(0);
+		writeVector(buffer, payload, 2);
+		writeVector(buffer, new Uint8Array([0x01]), 1);
+		expect(buffer.bytes()).toStrictEqual(
+			new Uint8Array([0x00, 0x03, 0xaa, 0xbb, 0xcc, 0x01, 0x01])
+		);
+		expect(() => writeVector(buffer, payload, 1, { max: 1 })).toThrowError("Invalid vector length");
+		expect(buffer.length).toBe(7);
+	});
+
+	test("decodeVector()", () => {
+		const data = new Uint8Array([0xff, 0x00, 0x03, 0xaa, 0xbb, 0xcc, 0x01]);
+		const [decoded, next] = decodeVector(data, 1, 2);
+		expect(decoded).toStrictEqual(payload);
+		expect(next).toBe(6);
+		// 返回的是原数组的视图
+		expect(decoded.buffer).toBe(data.buffer);
+		expect(
+			decodeVector(encodeVector(payload, 3, { byteOrder: littleEndian }), 0, 3, {
+				byteOrder: littleEndian
+			})
+		).toStrictEqual([payload, 6]);
+		// 声明的长度超出范围
+		expect(() => decodeVector(data, 1, 2, { max: 2 })).toThrowError("Invalid vector length");
+		expect(() => decodeVector(data, 1, 2, { min: 4 })).toThrowError("Invalid vector length");
+		// 字节数不足
+		expect(() => decodeVector(data, 6, 2)).toThrowError("Insufficient bytes");
+		// 4字节的长度前缀的最高位为1时，长度仍然是无符号整数
+		expect(() => decodeVector(new Uint8Array([0x80, 0x00, 0x00, 0x00]), 0, 4)).toThrowError(
+			"Insufficient bytes"
+		);
+		expect(() => decodeVector(new Uint8Array([0x00, 0x04, 0xaa]), 0, 2)).toThrowError(
+			"Insufficient bytes"
+		);
+	});
+
+	// 测试嵌套的向量，例如TLS中的 opaque names<1..2^16-1>，其中每个元素是 opaque name<1..2^8-1>
+	test("嵌套的向量", () => {
+		const names = [new Uint8Array([0x61]), new Uint8Array([0x62, 0x63])];
+		const encoded = encodeVector(
+			concatenateBytes(...names.map((name) => encodeVector(name, 1, { min: 1 }))),
+			2,
+			{ min: 1 }
+		);
+		expect(encoded).toStrictEqual(new Uint8Array([0x00, 0x05, 0x01, 0x61, 0x02, 0x62, 0x63]));
+
+		const [list, next] = decodeVector(encoded, 0, 2, { min: 1 });
+		expect(next).toBe(encoded.byteLength);
+		const decoded: Uint8Array[] = [];
+		let offset = 0;
+		while (offset < list.byteLength) {
+			const [name, nameEnd] = decodeVector(list, offset, 1, { min: 1 });
+			decoded.push(name);
+			offset = nameEnd;
+		}
+		expect(decoded).toStrictEqual(names);
+		// 内层向量不能超出外层向量的范围
+		const truncated = new Uint8Array([0x00, 0x02, 0x05, 0x61, 0x62, 0x63, 0x64]);
+		const [outer] = decodeVector(truncated, 0, 2);
+		expect(() => decodeVector(outer, 0, 1)).toThrowError("Insufficient bytes");
+	});
+});
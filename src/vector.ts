@@ -0,0 +1,180 @@
+/**
+ * vector.ts - 带长度前缀的字节向量
+ * 
+ * 很多二进制协议(TLS、SSH agent等)用"长度前缀 + 数据"的方式传输可变长度的字节数组，
+ * 也就是先写入数据的字节数，再写入数据本身。
+ * 
+ * 例如，TLS规范中的 opaque data<0..2^16-1> 表示一个用2字节(大端序)长度前缀的字节向量，
+ * 数据 [0xaa, 0xbb, 0xcc] 会被编码为 [0x00, 0x03, 0xaa, 0xbb, 0xcc]。
+ * 
+ * 长度前缀可以是1、2、3或4个字节，默认使用大端序(网络字节序)。
+ * 
+ * 向量可以嵌套：外层向量的数据本身就是若干个编码好的内层向量。
+ * 解码时先解码外层向量，再从它返回的数据中依次解码内层向量即可。
+ */
+
+import { bigEndian } from "./uint.js";
+
+import type { WriteTarget } from "./bytes.js";
+import type { ByteOrder } from "./uint.js";
+
+/**
+ * 长度前缀的字节数
+ */
+export type VectorPrefixSize = 1 | 2 | 3 | 4;
+
+/**
+ * 字节向量的选项
+ */
+export interface VectorOptions {
+	/**
+	 * 长度前缀使用的字节序，默认为bigEndian
+	 */
+	byteOrder?: ByteOrder;
+
+	/**
+	 * 数据的最小字节数，默认为0
+	 */
+	min?: number;
+
+	/**
+	 * 数据的最大字节数，默认为长度前缀可以表示的最大值
+	 */
+	max?: number;
+}
+
+/**
+ * 把字节数组编码为带长度前缀的字节向量
+ * 
+ * 例如：encodeVector(new Uint8Array([0xaa, 0xbb]), 2) 返回 [0x00, 0x02, 0xaa, 0xbb]
+ * 
+ * @param payload 数据
+ * @param prefixSize 长度前缀的字节数
+ * @param options 选项
+ * @returns 编码后的字节数组
+ * @throws 如果数据的长度不在允许的范围内，抛出TypeError
+ */
+export function encodeVector(
+	payload: Uint8Array,
+	prefixSize: VectorPrefixSize,
+	options?: VectorOptions
+): Uint8Array {
+	const encoded = new Uint8Array(prefixSize + payload.byteLength);
+	putVectorLength(encoded, payload.byteLength, prefixSize, options);
+	encoded.set(payload, prefixSize);
+	return encoded;
+}
+
+/**
+ * 把带长度前缀的字节向量追加到写入目标(DynamicBuffer或SegmentedBuffer)的末尾
+ * 
+ * @param buffer 目标缓冲区
+ * @param payload 数据
+ * @param prefixSize 长度前缀的字节数
+ * @param options 选项
+ * @throws 如果数据的长度不在允许的范围内，抛出TypeError
+ */
+export function writeVector(
+	buffer: WriteTarget,
+	payload: Uint8Array,
+	prefixSize: VectorPrefixSize,
+	options?: VectorOptions
+): void {
+	const prefix = new Uint8Array(prefixSize);
+	putVectorLength(prefix, payload.byteLength, prefixSize, options);
+	buffer.write(prefix);
+	buffer.write(payload);
+}
+
+/**
+ * 从字节数组中解码带长度前缀的字节向量
+ * 
+ * 返回的数据是原数组的视图(subarray)，不会复制数据。
+ * 
+ * 例如：
+ * let offset = 0;
+ * const [first, next] = decodeVector(data, offset, 2);
+ * offset = next;
+ * 
+ * @param data 源字节数组
+ * @param offset 偏移位置
+ * @param prefixSize 长度前缀的字节数
+ * @param options 选项
+ * @returns [数据, 向量之后的偏移位置]
+ * @throws 如果字节数不足，或者声明的长度不在允许的范围内，抛出TypeError
+ */
+export function decodeVector(
+	data: Uint8Array,
+	offset: number,
+	prefixSize: VectorPrefixSize,
+	options?: VectorOptions
+): [payload: Uint8Array, next: number] {
+	const byteOrder = options?.byteOrder ?? bigEndian;
+	let length: number;
+	if (prefixSize === 1) {
+		length = byteOrder.uint8(data, offset);
+	} else if (prefixSize === 2) {
+		length = byteOrder.uint16(data, offset);
+	} else if (prefixSize === 3) {
+		length = byteOrder.uint24(data, offset);
+	} else {
+		length = byteOrder.uint32(data, offset) >>> 0;
+	}
+	checkVectorLength(length, prefixSize, options);
+	const start = offset + prefixSize;
+	if (data.byteLength < start + length) {
+		throw new TypeError("Insufficient bytes");
+	}
+	return [data.subarray(start, start + length), start + length];
+}
+
+/**
+ * 写入长度前缀
+ * 
+ * @param target 目标字节数组
+ * @param length 数据的字节数
+ * @param prefixSize 长度前缀的字节数
+ * @param options 选项
+ * @throws 如果长度不在允许的范围内，抛出TypeError
+ */
+function putVectorLength(
+	target: Uint8Array,
+	length: number,
+	prefixSize: VectorPrefixSize,
+	options: VectorOptions | undefined
+): void {
+	checkVectorLength(length, prefixSize, options);
+	const byteOrder = options?.byteOrder ?? bigEndian;
+	if (prefixSize === 1) {
+		byteOrder.putUint8(target, length, 0);
+	} else if (prefixSize === 2) {
+		byteOrder.putUint16(target, length, 0);
+	} else if (prefixSize === 3) {
+		byteOrder.putUint24(target, length, 0);
+	} else {
+		byteOrder.putUint32(target, length, 0);
+	}
+}
+
+/**
+ * 检查数据的长度是否在允许的范围内
+ * 
+ * 允许的范围是选项中的[min, max]与长度前缀可以表示的范围的交集。
+ * 
+ * @param length 数据的字节数
+ * @param prefixSize 长度前缀的字节数
+ * @param options 选项
+ * @throws 如果长度不在允许的范围内，抛出TypeError
+ */
+function checkVectorLength(
+	length: number,
+	prefixSize: VectorPrefixSize,
+	options: VectorOptions | undefined
+): void {
+	const limit = 2 ** (prefixSize * 8) - 1;
+	const min = options?.min ?? 0;
+	const max = Math.min(options?.max ?? limit, limit);
+	if (length < min || length > max) {
+		throw new TypeError("Invalid vector length");
+	}
+}
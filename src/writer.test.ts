@@ -0,0 +1,81 @@
+/**
+ * writer.test.ts - writer.ts 的测试文件
+ * 
+ * 这个文件包含了针对 `src/writer.ts` 中 `BinaryWriter` 类的单元测试。
+ * 测试的目的是确保写入器能够按指定的字节序把整数追加到 `DynamicBuffer` 或 `SegmentedBuffer` 中，
+ * 并且能正确地写入对齐填充。
+ */
+import { describe, expect, test } from "vitest";
+import { BinaryWriter } from "./writer.js";
+import { DynamicBuffer, SegmentedBuffer } from "./bytes.js";
+import { bigEndian, littleEndian } from "./uint.js";
+
+describe("BinaryWriter", () => {
+	// 测试按大端序写入整数
+	test("BinaryWriter.writeUint8/16/32/64()", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BinaryWriter(buffer, bigEndian);
+		writer.writeUint8(0x01);
+		writer.writeUint16(0x0102);
+		writer.writeUint32(0xff000001);
+		writer.writeUint64(0x0102030405060708n);
+		expect(writer.position).toBe(15);
+		expect(buffer.bytes()).toStrictEqual(
+			new Uint8Array([
+				0x01, 0x01, 0x02, 0xff, 0x00, 0x00, 0x01, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08
+			])
+		);
+		// 缓冲区按翻倍策略扩容
+		expect(buffer.capacity).toBe(16);
+	});
+
+	// 测试按小端序写入整数
+	test("小端序", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BinaryWriter(buffer, littleEndian);
+		writer.writeUint16(0x0102);
+		writer.writeUint32(0x01020304);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([0x02, 0x01, 0x04, 0x03, 0x02, 0x01]));
+	});
+
+	// 测试写入无效的值时抛出错误，并且不写入任何内容
+	test("无效的值", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BinaryWriter(buffer, bigEndian);
+		expect(() => writer.writeUint8(256)).toThrowError("Invalid uint8 value");
+		expect(() => writer.writeUint16(-1)).toThrowError("Invalid uint16 value");
+		expect(() => writer.writeUint64(1n << 64n)).toThrowError("Invalid uint64 value");
+		expect(buffer.length).toBe(0);
+	});
+
+	// 测试写入字节数组和对齐填充
+	test("BinaryWriter.writeBytes()/align()", () => {
+		const buffer = new DynamicBuffer(0);
+		const writer = new BinaryWriter(buffer, bigEndian);
+		writer.writeBytes(new Uint8Array([0x01, 0x02, 0x03, 0x04, 0x05]));
+		writer.align(4);
+		expect(writer.position).toBe(8);
+		// 已经对齐时不写入任何内容
+		writer.align(4);
+		writer.align(1);
+		expect(writer.position).toBe(8);
+		expect(buffer.bytes()).toStrictEqual(new Uint8Array([0x01, 0x02, 0x03, 0x04, 0x05, 0, 0, 0]));
+		expect(() => writer.align(0)).toThrowError("Invalid alignment");
+	});
+
+	// 测试写入 SegmentedBuffer 得到与 DynamicBuffer 相同的结果
+	test("SegmentedBuffer", () => {
+		const buffer = new SegmentedBuffer(4);
+		const writer = new BinaryWriter(buffer, littleEndian);
+		writer.writeUint8(0x01);
+		writer.writeUint32(0x02030405);
+		writer.align(8);
+		writer.writeUint64(0x060708090a0b0c0dn);
+		expect(writer.position).toBe(16);
+		expect(buffer.bytes()).toStrictEqual(
+			new Uint8Array([
+				0x01, 0x05, 0x04, 0x03, 0x02, 0, 0, 0, 0x0d, 0x0c, 0x0b, 0x0a, 0x09, 0x08, 0x07, 0x06
+			])
+		);
+	});
+});
@@ -0,0 +1,139 @@
+/**
+ * writer.ts - 向动态缓冲区追加整数的二进制写入器
+ * 
+ * DynamicBuffer和SegmentedBuffer只能写入字节数组和单个字节。如果要追加一个32位整数，
+ * 通常需要先创建一个临时的4字节数组，用ByteOrder写入整数，再把临时数组写入缓冲区。
+ * 
+ * BinaryWriter把这几个步骤封装起来，并且在创建时就准备好可重复使用的临时空间，
+ * 这样每次写入整数时都不需要再分配新的数组。
+ */
+
+import type { WriteTarget } from "./bytes.js";
+import type { ByteOrder } from "./uint.js";
+
+/**
+ * 二进制写入器类
+ * 
+ * 包装一个写入目标(DynamicBuffer或SegmentedBuffer)和一个ByteOrder，按指定的字节序把整数追加到缓冲区的末尾。
+ * 缓冲区的扩容由写入目标自己负责(例如DynamicBuffer的容量翻倍)。
+ * 
+ * 应用场景：构建网络协议消息、序列化二进制文件格式等。
+ */
+export class BinaryWriter {
+	/**
+	 * 写入的目标缓冲区
+	 */
+	private buffer: WriteTarget;
+
+	/**
+	 * 写入多字节整数时使用的字节序
+	 */
+	private byteOrder: ByteOrder;
+
+	/**
+	 * 可重复使用的临时空间，以及它的几个不同长度的视图
+	 * 
+	 * 视图在构造时创建，写入时直接使用，避免每次调用都分配新的对象。
+	 */
+	private scratch1: Uint8Array;
+	private scratch2: Uint8Array;
+	private scratch4: Uint8Array;
+	private scratch8: Uint8Array;
+
+	/**
+	 * 创建一个新的二进制写入器
+	 * 
+	 * @param buffer 写入的目标缓冲区
+	 * @param byteOrder 字节序(bigEndian或littleEndian)
+	 */
+	constructor(buffer: WriteTarget, byteOrder: ByteOrder) {
+		this.buffer = buffer;
+		this.byteOrder = byteOrder;
+		this.scratch8 = new Uint8Array(8);
+		this.scratch4 = this.scratch8.subarray(0, 4);
+		this.scratch2 = this.scratch8.subarray(0, 2);
+		this.scratch1 = this.scratch8.subarray(0, 1);
+	}
+
+	/**
+	 * 当前写入位置，即缓冲区中已写入的字节数
+	 */
+	public get position(): number {
+		return this.buffer.length;
+	}
+
+	/**
+	 * 写入8位无符号整数
+	 * 
+	 * @param value 要写入的8位无符号整数(0-255)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeUint8(value: number): void {
+		this.byteOrder.putUint8(this.scratch1, value, 0);
+		this.buffer.writeByte(this.scratch1[0]);
+	}
+
+	/**
+	 * 写入16位无符号整数
+	 * 
+	 * @param value 要写入的16位无符号整数(0-65535)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeUint16(value: number): void {
+		this.byteOrder.putUint16(this.scratch2, value, 0);
+		this.buffer.write(this.scratch2);
+	}
+
+	/**
+	 * 写入32位无符号整数
+	 * 
+	 * @param value 要写入的32位无符号整数(0-4294967295)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeUint32(value: number): void {
+		this.byteOrder.putUint32(this.scratch4, value, 0);
+		this.buffer.write(this.scratch4);
+	}
+
+	/**
+	 * 写入64位无符号整数
+	 * 
+	 * @param value 要写入的64位无符号整数(BigInt类型)
+	 * @throws 如果值无效，抛出TypeError
+	 */
+	public writeUint64(value: bigint): void {
+		this.byteOrder.putUint64(this.scratch8, value, 0);
+		this.buffer.write(this.scratch8);
+	}
+
+	/**
+	 * 写入字节数组
+	 * 
+	 * @param bytes 要写入的字节数组
+	 */
+	public writeBytes(bytes: Uint8Array): void {
+		this.buffer.write(bytes);
+	}
+
+	/**
+	 * 写入0字节作为填充，直到当前位置是alignment的整数倍
+	 * 
+	 * 例如当前位置为5，align(4) 会写入3个0字节，使位置变为8。
+	 * 如果当前位置已经对齐，则不写入任何内容。
+	 * 
+	 * @param alignment 对齐的字节数(正整数)
+	 * @throws 如果alignment无效，抛出TypeError
+	 */
+	public align(alignment: number): void {
+		if (!Number.isInteger(alignment) || alignment < 1) {
+			throw new TypeError("Invalid alignment");
+		}
+		const remainder = this.buffer.length % alignment;
+		if (remainder === 0) {
+			return;
+		}
+		for (let i = remainder; i < alignment; i++) {
+			this.buffer.writeByte(0);
+		}
+	}
+}